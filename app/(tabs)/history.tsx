@@ -1,11 +1,33 @@
 import { MaterialIcons } from '@expo/vector-icons';
-import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import { router } from 'expo-router';
+import { useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { FlatList } from 'react-native-gesture-handler';
+import { OfflineBanner } from '../components/OfflineBanner';
 import { RecordingItem } from '../components/RecordingItem';
 import { useRecordings } from '../context/RecordingContext';
 
 export default function HistoryScreen() {
   const { recordings } = useRecordings();
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggleSelecting = () => {
+    setIsSelecting(selecting => !selecting);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(item => item !== id) : [...ids, id]));
+  };
+
+  const handleCompare = () => {
+    router.push({ pathname: '/compare', params: { ids: selectedIds.join(',') } });
+  };
+
+  const handleExport = () => {
+    router.push({ pathname: '/crm/export', params: { ids: selectedIds.join(',') } });
+  };
 
   return (
     <View style={styles.container}>
@@ -16,12 +38,45 @@ export default function HistoryScreen() {
             <Text style={styles.headerTitle}>Recording History</Text>
             <Text style={styles.headerSubtitle}>{recordings.length} recordings saved</Text>
           </View>
-          <View style={styles.headerIcon}>
-            <MaterialIcons name="history" size={32} color="#fff" />
-          </View>
+          {recordings.length > 0 ? (
+            <TouchableOpacity style={styles.headerIcon} onPress={toggleSelecting}>
+              <Text style={styles.headerAction}>{isSelecting ? 'Done' : 'Select'}</Text>
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.headerIcon}>
+              <MaterialIcons name="history" size={32} color="#fff" />
+            </View>
+          )}
         </View>
       </View>
 
+      <OfflineBanner />
+
+      {/* Selection Actions */}
+      {isSelecting && (
+        <View style={styles.selectionBar}>
+          <Text style={styles.selectionText}>
+            {selectedIds.length > 0 ? `${selectedIds.length} selected` : 'Tap recordings to select them'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.selectionButton, selectedIds.length !== 2 && styles.disabledButton]}
+            onPress={handleCompare}
+            disabled={selectedIds.length !== 2}
+          >
+            <MaterialIcons name="compare-arrows" size={18} color="#fff" />
+            <Text style={styles.selectionButtonText}>Compare</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.selectionButton, selectedIds.length === 0 && styles.disabledButton]}
+            onPress={handleExport}
+            disabled={selectedIds.length === 0}
+          >
+            <MaterialIcons name="ios-share" size={18} color="#fff" />
+            <Text style={styles.selectionButtonText}>Export</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Scrollable Body */}
       <ScrollView 
         style={styles.scrollableBody}
@@ -43,7 +98,16 @@ export default function HistoryScreen() {
             <FlatList
               data={recordings}
               keyExtractor={(item) => item.id}
-              renderItem={({ item, index }) => <RecordingItem recording={item} index={index} />}
+              renderItem={({ item, index }) => (
+                <RecordingItem
+                  recording={item}
+                  index={index}
+                  isSelecting={isSelecting}
+                  isSelected={selectedIds.includes(item.id)}
+                  onToggleSelect={() => toggleSelected(item.id)}
+                />
+              )}
+              extraData={{ isSelecting, selectedIds }}
               scrollEnabled={false}
               showsVerticalScrollIndicator={false}
             />
@@ -93,6 +157,44 @@ const styles = StyleSheet.create({
   headerIcon: {
     marginLeft: 16,
   },
+  headerAction: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  // Selection Bar
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  selectionText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+  },
+  selectionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#4a7eb7',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    marginLeft: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  selectionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   // Scrollable Body Styles
   scrollableBody: {
     flex: 1,
@@ -1,34 +1,69 @@
 import { MaterialIcons } from '@expo/vector-icons';
 import { Audio } from 'expo-av';
-import { useLocalSearchParams } from 'expo-router';
-import * as Speech from 'expo-speech';
-import { useEffect, useState } from 'react';
+import { router } from 'expo-router';
+import { useEffect, useRef, useState } from 'react';
 import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
-import { useAuth } from '../context/AuthContext';
+import { useLanguageSettings } from '../../hooks/useLanguageSettings';
+import { getAnalysisLanguage, getSpeechLanguage } from '../../lib/languages';
+import { DEFAULT_PLAYBOOK_ID, getPlaybookName } from '../../lib/playbooks';
+import { getRecordingAnalysis } from '../../lib/salesCallAnalysis';
+import { speakAloud, stopSpeaking } from '../../lib/speech';
+import { AnalysisSections } from '../components/AnalysisSections';
+import { OfflineBanner } from '../components/OfflineBanner';
+import { AnalysisProgressView } from '../components/AnalysisProgressView';
+import { LanguagePicker } from '../components/LanguagePicker';
+import { PlaybookPicker } from '../components/PlaybookPicker';
+import { useAnalysisJob, useAnalysisProgress, useAnalysisQueue } from '../context/AnalysisQueueContext';
 import { useRecordings } from '../context/RecordingContext';
 
 export default function App() {
-  const params = useLocalSearchParams();
-  const { updateRecording, addRecording } = useRecordings();
-  const { user } = useAuth();
+  const { recordings, addRecording, updateRecording } = useRecordings();
+  const { enqueueAnalysis, cancelAnalysis, isOnline } = useAnalysisQueue();
   const [recording, setRecording] = useState<Audio.Recording | null>(null);
   const [recordedURI, setRecordedURI] = useState<string | null>(null);
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [isSending, setIsSending] = useState(false);
-  const [transcription, setTranscription] = useState<string | null>(null);
-  const [analysis, setAnalysis] = useState<string | null>(null);
-  const [currentRecordingTitle, setCurrentRecordingTitle] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [currentRecordingId, setCurrentRecordingId] = useState<string | null>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const languageSettings = useLanguageSettings();
 
+  // Analysis runs in the background queue; this screen only reflects it
+  const currentJob = useAnalysisJob(currentRecordingId);
+  const currentProgress = useAnalysisProgress(currentRecordingId);
+  const currentRecording = recordings.find(item => item.id === currentRecordingId);
+  const analysis = currentRecording?.analysis ?? null;
+  const structuredAnalysis = currentRecording ? getRecordingAnalysis(currentRecording) : null;
+  const isLoading = currentJob?.status === 'pending' || currentJob?.status === 'running';
+  const previousJobStatusRef = useRef(currentJob?.status);
+
+  // Alerts only when the job turns 'failed', so re-running on other changes is harmless
   useEffect(() => {
-    if (params.recordingUri) {
-      setRecordedURI(params.recordingUri as string);
-      setCurrentRecordingTitle(params.recordingTitle as string);
-      sendAudioForTranscription(params.recordingUri as string);
+    const previousStatus = previousJobStatusRef.current;
+    previousJobStatusRef.current = currentJob?.status;
+
+    if (currentJob?.status !== 'failed' || previousStatus === 'failed') return;
+
+    if (currentJob.lastErrorCode === 'unauthenticated') {
+      Alert.alert('Signed Out', currentJob.lastError ?? 'Please log in again.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Log In', onPress: () => router.replace('/auth/login') },
+      ]);
+      return;
     }
-  }, [params.recordingUri, params.recordingTitle]);
+
+    Alert.alert(
+      'Connection Error',
+      currentJob.lastError ?? 'Failed to analyze recording. Please try again.',
+      [
+        { text: 'OK' },
+        { text: 'Retry', onPress: () => enqueueAnalysis(currentJob.recordingId) },
+        { 
+          text: 'Check Server', 
+          onPress: () => router.push('/settings/server')
+        }
+      ]
+    );
+  }, [currentJob, enqueueAnalysis]);
 
   useEffect(() => {
     return () => {
@@ -37,7 +72,7 @@ export default function App() {
       }
       // Stop any ongoing speech when component unmounts
       if (isSpeaking) {
-        Speech.stop();
+        stopSpeaking();
       }
     };
   }, [sound, isSpeaking]);
@@ -51,9 +86,7 @@ export default function App() {
       }
 
       // Clear previous recording states
-      setCurrentRecordingTitle(null);
-      setTranscription(null);
-      setAnalysis(null);
+      setCurrentRecordingId(null);
       setRecordedURI(null);
       if (sound) {
         await sound.unloadAsync();
@@ -95,7 +128,10 @@ export default function App() {
           duration,
           timestamp: Date.now(),
           title: `Recording ${new Date().toLocaleString()}`,
+          // Captured without a connection: submit as soon as it comes back
+          autoAnalyze: !isOnline,
         });
+        setCurrentRecordingId(recordingId);
       }
     } catch (error) {
       console.error('Failed to stop recording:', error);
@@ -157,248 +193,42 @@ export default function App() {
 
   const speakAnalysis = async () => {
     if (!analysis) return;
-    
-    try {
-      if (isSpeaking) {
-        // Stop current speech
-        Speech.stop();
-        setIsSpeaking(false);
-      } else {
-        // Start speaking
-        setIsSpeaking(true);
-        
-        // Clean up the text for better speech
-        const cleanText = analysis
-          .replace(/\*\*/g, '') // Remove markdown bold
-          .replace(/\*/g, '') // Remove markdown italic
-          .replace(/#/g, '') // Remove markdown headers
-          .replace(/\n\n/g, '. ') // Replace double newlines with periods
-          .replace(/\n/g, ' ') // Replace single newlines with spaces
-          .trim();
-        
-        // Try multiple approaches to force speaker output
-        try {
-          // Approach 1: Set audio mode for speaker output
-          await Audio.setAudioModeAsync({
-            allowsRecordingIOS: false,
-            playsInSilentModeIOS: true,
-            staysActiveInBackground: false,
-            shouldDuckAndroid: true,
-            playThroughEarpieceAndroid: false,
-            interruptionModeAndroid: 1,
-            interruptionModeIOS: 1,
-          });
-          
-          // Wait for audio mode to be set
-          await new Promise(resolve => setTimeout(resolve, 300));
-          
-          // Approach 2: Try with different audio session settings
-          await Audio.setAudioModeAsync({
-            allowsRecordingIOS: false,
-            playsInSilentModeIOS: true,
-            staysActiveInBackground: false,
-            shouldDuckAndroid: true,
-            playThroughEarpieceAndroid: false,
-            interruptionModeAndroid: 1,
-            interruptionModeIOS: 1,
-          });
-          
-          // Additional wait
-          await new Promise(resolve => setTimeout(resolve, 200));
-          
-        } catch (audioError) {
-          console.log('Audio mode setting failed:', audioError);
-        }
-        
-        // Try speech with multiple configurations
-        try {
-          await Speech.speak(cleanText, {
-            language: 'en-US',
-            pitch: 1.0,
-            rate: 0.8,
-            onStart: () => {
-              console.log('Speech started - should be through speaker');
-            },
-            onDone: () => {
-              setIsSpeaking(false);
-              // Restore audio mode for recording
-              Audio.setAudioModeAsync({
-                allowsRecordingIOS: true,
-                playsInSilentModeIOS: true,
-                staysActiveInBackground: true,
-                shouldDuckAndroid: true,
-              });
-            },
-            onStopped: () => {
-              setIsSpeaking(false);
-              // Restore audio mode for recording
-              Audio.setAudioModeAsync({
-                allowsRecordingIOS: true,
-                playsInSilentModeIOS: true,
-                staysActiveInBackground: true,
-                shouldDuckAndroid: true,
-              });
-            },
-            onError: (error) => {
-              console.error('Speech error:', error);
-              setIsSpeaking(false);
-              // Restore audio mode for recording
-              Audio.setAudioModeAsync({
-                allowsRecordingIOS: true,
-                playsInSilentModeIOS: true,
-                staysActiveInBackground: true,
-                shouldDuckAndroid: true,
-              });
-              Alert.alert('Speech Error', 'Unable to read the analysis aloud. Please try again.');
-            }
-          });
-        } catch (speechError) {
-          console.error('Speech failed:', speechError);
-          setIsSpeaking(false);
-          Alert.alert('Speech Error', 'Unable to read the analysis aloud. Please try again.');
-        }
-      }
-    } catch (error) {
-      console.error('Speech error:', error);
+
+    if (isSpeaking) {
+      stopSpeaking();
       setIsSpeaking(false);
-      Alert.alert('Speech Error', 'Unable to read the analysis aloud. Please try again.');
+      return;
     }
-  };
-
-  const sendAudioForTranscription = async (uri: string) => {
-    if (isLoading) return;
-    
-    let timeoutId: ReturnType<typeof setTimeout> | null = null;
-    
-    try {
-      setIsLoading(true);
-      setIsSending(true);
-      setTranscription(null);
-      setAnalysis(null);
 
-      const formData = new FormData();
-      
-      formData.append('file', {
-        uri: uri,
-        type: 'audio/m4a',
-        name: 'recording.m4a',
-      } as any);
-      
-      console.log('Sending request to analyze recording...');
-      console.log('User ID being sent:', user?.id);
-      console.log('Audio file URI:', uri);
-      console.log('Target URL: http://192.168.1.213:8000/analyze_sales_call');
-      
-      const controller = new AbortController();
-      timeoutId = setTimeout(() => {
-        console.log('Request timed out after 60 seconds');
-        controller.abort();
-      }, 60000); // 60 second timeout
-      
-      console.log('Making fetch request...');
-      console.log('FormData contents:');
-      console.log('- file: audio/m4a recording');
-      console.log('- user_id:', user?.id);
-      
-      const endpoints = [
-        `http://192.168.1.213:8000/analyze_sales_call?user_id=${user?.id}`,
-        `http://localhost:8000/analyze_sales_call?user_id=${user?.id}`,
-        `http://127.0.0.1:8000/analyze_sales_call?user_id=${user?.id}`
-      ];
-      
-      let response;
-      let lastError;
-      
-      for (const endpoint of endpoints) {
-        try {
-          console.log(`Trying endpoint: ${endpoint}`);
-          response = await fetch(endpoint, {
-            method: 'POST',
-            body: formData,
-            headers: {
-              'Accept': 'application/json',
-              // Don't set Content-Type - let fetch handle it for FormData
-            },
-            signal: controller.signal,
-          });
-          
-          if (response.ok) {
-            console.log(`Successfully connected to: ${endpoint}`);
-            break;
-          } else {
-            console.log(`Endpoint ${endpoint} returned status: ${response.status}`);
-          }
-        } catch (error) {
-          console.log(`Failed to connect to ${endpoint}:`, error instanceof Error ? error.message : 'Unknown error');
-          lastError = error;
-          continue;
-        }
-      }
-      
-      if (!response) {
-        throw new Error(`Could not connect to any endpoint. Last error: ${lastError instanceof Error ? lastError.message : 'Unknown error'}`);
-      }
-      
-      clearTimeout(timeoutId);
+    setIsSpeaking(true);
+    await speakAloud(analysis, {
+      language: getSpeechLanguage(currentRecording && getAnalysisLanguage(currentRecording)),
+      onFinish: () => setIsSpeaking(false),
+      onError: () => Alert.alert('Speech Error', 'Unable to read the analysis aloud. Please try again.'),
+    });
+  };
 
-      console.log('Response status:', response.status);
-      console.log('Response headers:', Object.fromEntries(response.headers.entries()));
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Server error:', errorText);
-        throw new Error(`Server error: ${response.status} - ${errorText}`);
-      }
+  const getLoadingText = () => {
+    if (!isOnline) {
+      return 'Offline. Analysis will start when you reconnect.';
+    }
+    if (!currentJob || currentJob.status === 'running') {
+      return 'AI is analyzing your recording...';
+    }
+    if (currentJob.attempts > 0) {
+      return `Connection problem, retrying (attempt ${currentJob.attempts + 1})...`;
+    }
+    return 'Waiting to analyze...';
+  };
 
-      const data = await response.json();
-      console.log('Received analysis data:', data);
-      console.log('Analysis completed successfully for user:', user?.id);
-      console.log('Transcription length:', data.transcription?.length || 0);
-      console.log('Analysis length:', data.analysis?.length || 0);
-      
-      if (!data.transcription || !data.analysis) {
-        throw new Error('Invalid response format from server');
-      }
-      setTranscription(data.transcription);
-      setAnalysis(data.analysis);
-    } catch (error) {
-      console.error('Error sending audio:', error);
-      
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-      
-      let errorMessage = 'Failed to analyze recording. Please try again.';
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      
-      if (errorMsg.includes('Network request failed')) {
-        errorMessage = 'Network connection failed. Please check your internet connection and ensure the backend server is running.';
-      } else if (errorMsg.includes('Could not connect')) {
-        errorMessage = 'Unable to connect to the analysis server. Please check if the backend server is running on the correct IP address.';
-      } else if (errorMsg.includes('timeout') || errorMsg.includes('AbortError')) {
-        errorMessage = 'Request timed out. The server may be processing a large file. Please try again.';
-      }
-      
-      Alert.alert(
-        'Connection Error',
-        errorMessage,
-        [
-          { text: 'OK' },
-          { 
-            text: 'Check Server', 
-            onPress: () => {
-              Alert.alert(
-                'Server Information',
-                'Make sure your backend server is running on:\n• IP: 192.168.1.213\n• Port: 8000\n• Endpoint: /analyze_sales_call'
-              );
-            }
-          }
-        ]
-      );
-    } finally {
-      setIsLoading(false);
-      setIsSending(false);
+  const getAnalyzeLabel = () => {
+    if (analysis) {
+      const playbookId = currentRecording?.playbookId ?? DEFAULT_PLAYBOOK_ID;
+      return currentRecording?.analysisPlaybookId && playbookId !== currentRecording.analysisPlaybookId
+        ? `Re-analyze as ${getPlaybookName(playbookId)}`
+        : 'Re-analyze';
     }
+    return currentRecording?.analysisStatus === 'cancelled' ? 'Resume Analysis' : 'Analyze with AI';
   };
  
   return (
@@ -416,6 +246,8 @@ export default function App() {
         </View>
       </View>
 
+      <OfflineBanner />
+
       {/* Scrollable Body */}
       <ScrollView 
         style={styles.scrollableBody}
@@ -434,10 +266,10 @@ export default function App() {
         </View>
 
         {/* Recording Status */}
-        {currentRecordingTitle && (
+        {currentRecording && (
           <View style={styles.recordingStatusCard}>
             <MaterialIcons name="fiber-manual-record" size={20} color="#f44336" />
-            <Text style={styles.recordingStatusText}>{currentRecordingTitle}</Text>
+            <Text style={styles.recordingStatusText}>{currentRecording.title}</Text>
           </View>
         )}
 
@@ -451,6 +283,27 @@ export default function App() {
             <Text style={styles.buttonText}>{recording ? 'Stop Recording' : 'Start Recording'}</Text>
           </Pressable>
 
+          {currentRecording && !isLoading && (
+            <View style={styles.playbookContainer}>
+              <PlaybookPicker
+                value={currentRecording.playbookId ?? DEFAULT_PLAYBOOK_ID}
+                customInstructions={currentRecording.customPlaybookInstructions}
+                onChange={playbookId => updateRecording(currentRecording.id, { playbookId })}
+                onCustomInstructionsChange={customPlaybookInstructions =>
+                  updateRecording(currentRecording.id, { customPlaybookInstructions })
+                }
+              />
+              <View style={styles.languageContainer}>
+                <LanguagePicker
+                  label="Call language"
+                  value={currentRecording.language}
+                  defaultLanguage={languageSettings.defaultLanguage}
+                  onChange={language => updateRecording(currentRecording.id, { language })}
+                />
+              </View>
+            </View>
+          )}
+
           {recordedURI && (
             <View style={styles.playbackControls}>
               <Pressable style={styles.playButton} onPress={playPauseRecording}>
@@ -458,35 +311,52 @@ export default function App() {
                 <Text style={styles.buttonText}>{isPlaying ? 'Playing...' : 'Play Recording'}</Text>
               </Pressable>
 
-              {!params.recordingUri && (
-                <Pressable
-                  style={[styles.sendButton, isSending ? styles.sending : null]}
-                  onPress={() => sendAudioForTranscription(recordedURI)}
-                  disabled={isSending}
-                >
-                  {isSending ? (
-                    <ActivityIndicator color="#fff" />
-                  ) : (
-                    <>
-                      <MaterialIcons name="send" size={20} color="#fff" />
-                      <Text style={styles.buttonText}>Analyze with AI</Text>
-                    </>
-                  )}
-                </Pressable>
-              )}
+              <Pressable
+                style={[styles.sendButton, isLoading ? styles.sending : null]}
+                onPress={() => currentRecordingId && enqueueAnalysis(currentRecordingId)}
+                disabled={isLoading || !currentRecordingId}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <>
+                    <MaterialIcons name={analysis ? 'refresh' : 'send'} size={20} color="#fff" />
+                    <Text style={styles.buttonText}>{getAnalyzeLabel()}</Text>
+                  </>
+                )}
+              </Pressable>
             </View>
           )}
 
+          {currentRecording?.autoAnalyze && !analysis && !isLoading && (
+            <Text style={styles.offlineHint}>
+              Saved offline. It will be analyzed automatically when you reconnect.
+            </Text>
+          )}
+
           {isLoading && (
-            <View style={styles.loadingContainer}>
-              <ActivityIndicator size="large" color="#4a7eb7" />
-              <Text style={styles.loadingText}>AI is analyzing your recording...</Text>
-            </View>
+            currentProgress ? (
+              <View style={styles.progressContainer}>
+                <AnalysisProgressView progress={currentProgress} />
+              </View>
+            ) : (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size="large" color="#4a7eb7" />
+                <Text style={styles.loadingText}>{getLoadingText()}</Text>
+              </View>
+            )
+          )}
+
+          {isLoading && currentRecordingId && (
+            <Pressable style={styles.cancelButton} onPress={() => cancelAnalysis(currentRecordingId)}>
+              <MaterialIcons name="close" size={20} color="#f44336" />
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </Pressable>
           )}
         </View>
 
         {/* Analysis Results */}
-        {analysis && (
+        {analysis && structuredAnalysis && (
           <View style={styles.analysisCard}>
             <View style={styles.analysisHeader}>
               <View style={styles.analysisTitleContainer}>
@@ -516,9 +386,19 @@ export default function App() {
                 </Pressable>
               </View>
             </View>
-            <ScrollView style={styles.analysisScrollArea}>
-              <Text style={styles.analysisText}>{analysis}</Text>
+            <ScrollView style={styles.analysisScrollArea} nestedScrollEnabled>
+              <AnalysisSections analysis={structuredAnalysis} />
             </ScrollView>
+            {currentRecording?.transcript && (
+              <Pressable
+                style={styles.transcriptButton}
+                onPress={() => router.push(`/transcript/${currentRecording.id}`)}
+              >
+                <MaterialIcons name="subject" size={20} color="#4a7eb7" />
+                <Text style={styles.transcriptButtonText}>View Transcript</Text>
+                <MaterialIcons name="chevron-right" size={20} color="#4a7eb7" />
+              </Pressable>
+            )}
           </View>
         )}
       </ScrollView>
@@ -691,6 +571,21 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  playbookContainer: {
+    marginTop: 20,
+  },
+  languageContainer: {
+    marginTop: 16,
+  },
+  offlineHint: {
+    marginTop: 16,
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  progressContainer: {
+    marginTop: 20,
+  },
   loadingContainer: {
     marginTop: 20,
     alignItems: 'center',
@@ -702,6 +597,24 @@ const styles = StyleSheet.create({
     color: '#4a7eb7',
     fontWeight: '500',
   },
+  cancelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    marginTop: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: 50,
+    borderWidth: 1,
+    borderColor: '#f44336',
+  },
+  cancelButtonText: {
+    color: '#f44336',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   // Analysis Card
   analysisCard: {
     backgroundColor: '#fff',
@@ -768,12 +681,21 @@ const styles = StyleSheet.create({
     borderColor: '#E0E0E0',
   },
   analysisScrollArea: {
-    maxHeight: 300,
+    maxHeight: 400,
   },
-  analysisText: {
+  transcriptButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#E3F2FD',
+  },
+  transcriptButtonText: {
     fontSize: 16,
-    color: '#333',
-    lineHeight: 24,
-    textAlign: 'left',
+    fontWeight: '600',
+    color: '#4a7eb7',
+    marginHorizontal: 8,
   },
 });
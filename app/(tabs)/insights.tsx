@@ -0,0 +1,436 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { INSIGHTS_RANGES, InsightsRange, PeriodStat, TrendGrouping, buildInsights, getRangeStart } from '../../lib/insights';
+import { buildTrackerReport, getTrackerCategory } from '../../lib/trackers';
+import { formatTimestamp } from '../../lib/transcript';
+import { BarChart } from '../components/BarChart';
+import { RankedBarList } from '../components/RankedBarList';
+import { getScoreColor } from '../components/RubricScoreTable';
+import { useRecordings } from '../context/RecordingContext';
+import { useTrackers } from '../context/TrackerContext';
+
+// Rubric areas shown at each end of the strongest/weakest lists
+const RUBRIC_AREAS_SHOWN = 3;
+
+const formatPeriod = (start: number, grouping: TrendGrouping) =>
+  new Date(start).toLocaleDateString(
+    undefined,
+    grouping === 'week' ? { month: 'numeric', day: 'numeric' } : { month: 'short', year: '2-digit' }
+  );
+
+export default function InsightsScreen() {
+  const { recordings } = useRecordings();
+  const { trackers } = useTrackers();
+  const [range, setRange] = useState<InsightsRange>('90d');
+
+  const rangeStart = getRangeStart(range);
+  const insights = buildInsights(recordings, rangeStart);
+  const trackerMentions = buildTrackerReport(
+    recordings.filter(recording => rangeStart === null || recording.timestamp >= rangeStart),
+    trackers
+  ).filter(entry => entry.totalMentions > 0);
+  const strongestAreas = insights.rubricAreas.slice(0, RUBRIC_AREAS_SHOWN);
+  const periodName = insights.grouping === 'week' ? 'Week' : 'Month';
+  const toChartData = (getValue: (period: PeriodStat) => number | null) =>
+    insights.periods.map(period => ({ label: formatPeriod(period.start, insights.grouping), value: getValue(period) }));
+  const weakestAreas = insights.rubricAreas
+    .slice(Math.max(RUBRIC_AREAS_SHOWN, insights.rubricAreas.length - RUBRIC_AREAS_SHOWN))
+    .reverse();
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Insights</Text>
+            <Text style={styles.headerSubtitle}>Track how your calls are trending</Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="insights" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      {/* Scrollable Body */}
+      <ScrollView
+        style={styles.scrollableBody}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Date Range */}
+        <View style={styles.rangeRow}>
+          {INSIGHTS_RANGES.map(item => (
+            <Pressable
+              key={item.key}
+              style={[styles.rangeChip, range === item.key && styles.selectedRangeChip]}
+              onPress={() => setRange(item.key)}
+            >
+              <Text style={[styles.rangeText, range === item.key && styles.selectedRangeText]}>
+                {item.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {insights.totalCalls === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons name="query-stats" size={64} color="#4a7eb7" />
+            <Text style={styles.emptyTitle}>No Calls in This Period</Text>
+            <Text style={styles.emptyDescription}>
+              Record and analyze calls to see your scores and habits trend over time.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Summary */}
+            <View style={styles.statsRow}>
+              <View style={styles.statCard}>
+                <Text style={styles.statValue}>{insights.totalCalls}</Text>
+                <Text style={styles.statLabel}>Calls</Text>
+              </View>
+              <View style={styles.statCard}>
+                <Text
+                  style={[
+                    styles.statValue,
+                    insights.averageScore !== null && { color: getScoreColor(insights.averageScore) },
+                  ]}
+                >
+                  {insights.averageScore ?? '–'}
+                </Text>
+                <Text style={styles.statLabel}>Avg score</Text>
+              </View>
+              <View style={styles.statCard}>
+                <Text style={styles.statValue}>{formatTimestamp(insights.averageDuration)}</Text>
+                <Text style={styles.statLabel}>Avg length</Text>
+              </View>
+            </View>
+
+            {/* Score Trend */}
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <MaterialIcons name="trending-up" size={22} color="#4caf50" />
+                <Text style={styles.sectionTitle}>Score Trend</Text>
+                <Text style={styles.sectionMeta}>{insights.grouping === 'week' ? 'weekly' : 'monthly'} average</Text>
+              </View>
+              {insights.analyzedCalls > 0 ? (
+                <BarChart
+                  data={toChartData(period => period.averageScore)}
+                  maxValue={100}
+                  getBarColor={getScoreColor}
+                />
+              ) : (
+                <Text style={styles.emptyText}>No analyzed calls in this period yet.</Text>
+              )}
+            </View>
+
+            {/* Calls per Period */}
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <MaterialIcons name="bar-chart" size={22} color="#4a7eb7" />
+                <Text style={styles.sectionTitle}>Calls per {periodName}</Text>
+              </View>
+              <BarChart data={toChartData(period => period.calls)} />
+            </View>
+
+            {/* Objections */}
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <MaterialIcons name="report-problem" size={22} color="#ff9800" />
+                <Text style={styles.sectionTitle}>Frequent Objections</Text>
+              </View>
+              {insights.topObjections.length > 0 ? (
+                <RankedBarList
+                  items={insights.topObjections}
+                  color="#ff9800"
+                  formatValue={value => `${value}×`}
+                />
+              ) : (
+                <Text style={styles.emptyText}>No objections recorded in this period.</Text>
+              )}
+            </View>
+
+            {/* Speaking Habits */}
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <MaterialIcons name="record-voice-over" size={22} color="#673ab7" />
+                <Text style={styles.sectionTitle}>Speaking Habits</Text>
+                <Text style={styles.sectionMeta}>{insights.conversation.calls} transcripts</Text>
+              </View>
+              {insights.conversation.calls > 0 ? (
+                <>
+                  <View style={styles.habitGrid}>
+                    <View style={styles.habitCell}>
+                      <Text style={styles.habitValue}>{insights.conversation.averageWordsPerMinute ?? '–'}</Text>
+                      <Text style={styles.statLabel}>Words / min</Text>
+                    </View>
+                    <View style={styles.habitCell}>
+                      <Text style={styles.habitValue}>
+                        {insights.conversation.averageLongestMonologue !== null
+                          ? formatTimestamp(insights.conversation.averageLongestMonologue)
+                          : '–'}
+                      </Text>
+                      <Text style={styles.statLabel}>Avg longest monologue</Text>
+                    </View>
+                    <View style={styles.habitCell}>
+                      <Text style={styles.habitValue}>{insights.conversation.questionsPerCall}</Text>
+                      <Text style={styles.statLabel}>Questions / call</Text>
+                    </View>
+                    <View style={styles.habitCell}>
+                      <Text style={styles.habitValue}>{insights.conversation.interruptionsPerCall}</Text>
+                      <Text style={styles.statLabel}>Interruptions / call</Text>
+                    </View>
+                  </View>
+                  {insights.conversation.topFillerWords.length > 0 && (
+                    <>
+                      <Text style={styles.subheading}>
+                        Filler words ({insights.conversation.fillerWordsPerCall} / call)
+                      </Text>
+                      <RankedBarList
+                        items={insights.conversation.topFillerWords.map(item => ({ ...item, label: `“${item.label}”` }))}
+                        color="#673ab7"
+                      />
+                    </>
+                  )}
+                </>
+              ) : (
+                <Text style={styles.emptyText}>No transcripts in this period yet.</Text>
+              )}
+            </View>
+
+            {/* Tracked Mentions */}
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <MaterialIcons name="label" size={22} color="#ff9800" />
+                <Text style={styles.sectionTitle}>Tracked Mentions</Text>
+                {trackers.length > 0 && (
+                  <TouchableOpacity onPress={() => router.push('/trackers/report')}>
+                    <Text style={styles.linkText}>Report</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {trackerMentions.length > 0 ? (
+                <RankedBarList
+                  items={trackerMentions.map(entry => ({
+                    label: `${entry.tracker.name} · ${getTrackerCategory(entry.tracker.category).label}`,
+                    value: entry.totalMentions,
+                  }))}
+                  color="#ff9800"
+                  formatValue={value => `${value}×`}
+                />
+              ) : (
+                <Text style={styles.emptyText}>
+                  {trackers.length > 0
+                    ? 'None of your trackers came up in this period.'
+                    : 'Add keyword trackers in Profile to follow competitor and topic mentions.'}
+                </Text>
+              )}
+            </View>
+
+            {/* Rubric Areas */}
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <MaterialIcons name="fact-check" size={22} color="#673ab7" />
+                <Text style={styles.sectionTitle}>Rubric Areas</Text>
+              </View>
+              {insights.rubricAreas.length > 0 ? (
+                <>
+                  <Text style={styles.subheading}>Strongest</Text>
+                  <RankedBarList items={strongestAreas} maxValue={100} color={getScoreColor} />
+                  {weakestAreas.length > 0 && (
+                    <>
+                      <Text style={styles.subheading}>Needs work</Text>
+                      <RankedBarList items={weakestAreas} maxValue={100} color={getScoreColor} />
+                    </>
+                  )}
+                </>
+              ) : (
+                <Text style={styles.emptyText}>
+                  Set up a coaching rubric in Profile to see scores per criterion.
+                </Text>
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100, // Extra space for tab bar
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  rangeChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  selectedRangeChip: {
+    backgroundColor: '#4a7eb7',
+    borderColor: '#4a7eb7',
+  },
+  rangeText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4a7eb7',
+  },
+  selectedRangeText: {
+    color: '#fff',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  statValue: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  statLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginLeft: 8,
+  },
+  sectionMeta: {
+    fontSize: 13,
+    color: '#999',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4a7eb7',
+  },
+  habitGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  habitCell: {
+    width: '50%',
+    paddingVertical: 8,
+  },
+  habitValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subheading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
@@ -11,10 +11,11 @@ import {
     View,
 } from 'react-native';
 import { useAuth } from '../context/AuthContext';
+import { useTasks } from '../context/TaskContext';
 
 export default function ProfileScreen() {
   const { user, signOut } = useAuth();
-  const [notificationsEnabled, setNotificationsEnabled] = React.useState(true);
+  const { notificationsEnabled, setNotificationsEnabled } = useTasks();
   const [darkModeEnabled, setDarkModeEnabled] = React.useState(false);
 
   const handleLogout = async () => {
@@ -35,6 +36,16 @@ export default function ProfileScreen() {
     );
   };
 
+  const handleNotificationsChange = async (enabled: boolean) => {
+    const applied = await setNotificationsEnabled(enabled);
+    if (!applied) {
+      Alert.alert(
+        'Notifications Blocked',
+        'Allow notifications for this app in your device settings to get task reminders.'
+      );
+    }
+  };
+
   const handleDeleteAccount = () => {
     Alert.alert(
       'Delete Account',
@@ -100,7 +111,7 @@ export default function ProfileScreen() {
             </View>
             <Switch
               value={notificationsEnabled}
-              onValueChange={setNotificationsEnabled}
+              onValueChange={handleNotificationsChange}
               trackColor={{ false: '#E5E5E7', true: '#4a7eb7' }}
               thumbColor={notificationsEnabled ? '#fff' : '#f4f3f4'}
             />
@@ -118,6 +129,46 @@ export default function ProfileScreen() {
               thumbColor={darkModeEnabled ? '#fff' : '#f4f3f4'}
             />
           </View>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/settings/server')}>
+            <View style={styles.settingLeft}>
+              <MaterialIcons name="dns" size={24} color="#666" />
+              <Text style={styles.settingLabel}>Server Connection</Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#ccc" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/settings/rubric')}>
+            <View style={styles.settingLeft}>
+              <MaterialIcons name="fact-check" size={24} color="#666" />
+              <Text style={styles.settingLabel}>Coaching Rubric</Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#ccc" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/settings/trackers')}>
+            <View style={styles.settingLeft}>
+              <MaterialIcons name="label" size={24} color="#666" />
+              <Text style={styles.settingLabel}>Keyword Trackers</Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#ccc" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/settings/language')}>
+            <View style={styles.settingLeft}>
+              <MaterialIcons name="translate" size={24} color="#666" />
+              <Text style={styles.settingLabel}>Language</Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#ccc" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingItem} onPress={() => router.push('/settings/crm')}>
+            <View style={styles.settingLeft}>
+              <MaterialIcons name="table-chart" size={24} color="#666" />
+              <Text style={styles.settingLabel}>CRM Export</Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#ccc" />
+          </TouchableOpacity>
         </View>
 
         {/* Account Section */}
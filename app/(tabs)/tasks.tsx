@@ -0,0 +1,249 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { isOverdue } from '../../lib/actionItems';
+import { TaskItem } from '../components/TaskItem';
+import { useRecordings } from '../context/RecordingContext';
+import { useTasks } from '../context/TaskContext';
+import { Task, TaskStatus } from '../types/task';
+
+const STATUS_FILTERS: { key: TaskStatus; label: string }[] = [
+  { key: 'open', label: 'Open' },
+  { key: 'done', label: 'Done' },
+];
+
+function groupOpenTasks(tasks: Task[]) {
+  const now = Date.now();
+  const endOfToday = new Date(now).setHours(23, 59, 59, 999);
+  const sorted = [...tasks].sort((a, b) => (a.dueAt ?? Infinity) - (b.dueAt ?? Infinity) || a.createdAt - b.createdAt);
+
+  return [
+    { title: 'Overdue', color: '#f44336', tasks: sorted.filter(task => isOverdue(task, now)) },
+    {
+      title: 'Today',
+      color: '#ff9800',
+      tasks: sorted.filter(task => task.dueAt !== undefined && task.dueAt >= now && task.dueAt <= endOfToday),
+    },
+    { title: 'Upcoming', color: '#4a7eb7', tasks: sorted.filter(task => task.dueAt !== undefined && task.dueAt > endOfToday) },
+    { title: 'No date', color: '#999', tasks: sorted.filter(task => task.dueAt === undefined) },
+  ].filter(group => group.tasks.length > 0);
+}
+
+export default function TasksScreen() {
+  const { recordings } = useRecordings();
+  const { tasks } = useTasks();
+  const [status, setStatus] = useState<TaskStatus>('open');
+
+  const recordingTitles = Object.fromEntries(recordings.map(recording => [recording.id, recording.title]));
+  const openTasks = tasks.filter(task => task.status === 'open');
+  const groups =
+    status === 'open'
+      ? groupOpenTasks(openTasks)
+      : [
+          {
+            title: 'Completed',
+            color: '#4caf50',
+            tasks: tasks
+              .filter(task => task.status === 'done')
+              .sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0)),
+          },
+        ].filter(group => group.tasks.length > 0);
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Tasks</Text>
+            <Text style={styles.headerSubtitle}>
+              {openTasks.length === 1 ? '1 open action item' : `${openTasks.length} open action items`}
+            </Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="checklist" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      {/* Scrollable Body */}
+      <ScrollView
+        style={styles.scrollableBody}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Status Filter */}
+        <View style={styles.filterRow}>
+          {STATUS_FILTERS.map(item => (
+            <Pressable
+              key={item.key}
+              style={[styles.filterChip, status === item.key && styles.selectedFilterChip]}
+              onPress={() => setStatus(item.key)}
+            >
+              <Text style={[styles.filterText, status === item.key && styles.selectedFilterText]}>{item.label}</Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {groups.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons name="task-alt" size={64} color="#4a7eb7" />
+            <Text style={styles.emptyTitle}>{status === 'open' ? 'All Caught Up' : 'Nothing Completed Yet'}</Text>
+            <Text style={styles.emptyDescription}>
+              {status === 'open'
+                ? 'Next steps from analyzed calls show up here with their owner and due date.'
+                : 'Tick off action items to see them here.'}
+            </Text>
+          </View>
+        ) : (
+          groups.map(group => (
+            <View key={group.title} style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <View style={[styles.groupDot, { backgroundColor: group.color }]} />
+                <Text style={styles.sectionTitle}>{group.title}</Text>
+                <Text style={styles.sectionMeta}>{group.tasks.length}</Text>
+              </View>
+              {group.tasks.map(task => (
+                <TaskItem
+                  key={task.id}
+                  task={task}
+                  recordingTitle={recordingTitles[task.recordingId]}
+                  onOpenRecording={() => router.push(`/recording/${task.recordingId}`)}
+                />
+              ))}
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 100, // Extra space for tab bar
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  filterChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  selectedFilterChip: {
+    backgroundColor: '#4a7eb7',
+    borderColor: '#4a7eb7',
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4a7eb7',
+  },
+  selectedFilterText: {
+    color: '#fff',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 10,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  groupDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginLeft: 8,
+  },
+  sectionMeta: {
+    fontSize: 13,
+    color: '#999',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+});
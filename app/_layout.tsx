@@ -6,8 +6,12 @@ import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-reanimated';
+import { AnalysisQueueProvider } from './context/AnalysisQueueContext';
 import { AuthProvider } from './context/AuthContext';
 import { RecordingProvider } from './context/RecordingContext';
+import { RubricProvider } from './context/RubricContext';
+import { TaskProvider } from './context/TaskContext';
+import { TrackerProvider } from './context/TrackerContext';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
 
@@ -36,13 +40,33 @@ export default function RootLayout() {
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
         <AuthProvider>
           <RecordingProvider>
-            <Stack>
-              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-              <Stack.Screen name="auth/login" options={{ headerShown: false }} />
-              <Stack.Screen name="auth/signup" options={{ headerShown: false }} />
-              <Stack.Screen name="+not-found" />
-            </Stack>
-            <StatusBar style="auto" />
+            <TaskProvider>
+              <RubricProvider>
+                <TrackerProvider>
+                  <AnalysisQueueProvider>
+                    <Stack>
+                      <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                      <Stack.Screen name="auth/login" options={{ headerShown: false }} />
+                      <Stack.Screen name="auth/signup" options={{ headerShown: false }} />
+                      <Stack.Screen name="settings/server" options={{ headerShown: false }} />
+                      <Stack.Screen name="settings/rubric" options={{ headerShown: false }} />
+                      <Stack.Screen name="settings/trackers" options={{ headerShown: false }} />
+                      <Stack.Screen name="settings/crm" options={{ headerShown: false }} />
+                      <Stack.Screen name="settings/language" options={{ headerShown: false }} />
+                      <Stack.Screen name="recording/[id]" options={{ headerShown: false }} />
+                      <Stack.Screen name="transcript/[id]" options={{ headerShown: false }} />
+                      <Stack.Screen name="chat/[id]" options={{ headerShown: false }} />
+                      <Stack.Screen name="email/[id]" options={{ headerShown: false }} />
+                      <Stack.Screen name="trackers/report" options={{ headerShown: false }} />
+                      <Stack.Screen name="crm/export" options={{ headerShown: false }} />
+                      <Stack.Screen name="compare" options={{ headerShown: false }} />
+                      <Stack.Screen name="+not-found" />
+                    </Stack>
+                    <StatusBar style="auto" />
+                  </AnalysisQueueProvider>
+                </TrackerProvider>
+              </RubricProvider>
+            </TaskProvider>
           </RecordingProvider>
         </AuthProvider>
       </ThemeProvider>
@@ -0,0 +1,434 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Markdown } from '../../components/Markdown';
+import { useAnalysisBackend } from '../../hooks/useAnalysisBackend';
+import { getChatErrorMessage } from '../../lib/analysisClient';
+import { getAnalysisProvider } from '../../lib/analysisProvider';
+import { getAnalysisLanguage, getSpeechLanguage } from '../../lib/languages';
+import { speakAloud, stopSpeaking } from '../../lib/speech';
+import { useAuth } from '../context/AuthContext';
+import { useRecordings } from '../context/RecordingContext';
+import { ChatMessage, ChatRole } from '../types/chat';
+
+const SUGGESTED_QUESTIONS = [
+  'What did they say about budget?',
+  'What objections came up and how did I handle them?',
+  'What should I have asked but did not?',
+  'How could I have answered their questions better?',
+];
+
+const createMessage = (role: ChatRole, content: string): ChatMessage => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  role,
+  content,
+  createdAt: Date.now(),
+});
+
+export default function RecordingChatScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { getAccessToken, refreshAccessToken } = useAuth();
+  const { recordings, getRecording, updateRecording } = useRecordings();
+  const backend = useAnalysisBackend();
+  const recording = recordings.find(item => item.id === id);
+  const messages = recording?.chatHistory ?? [];
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+  const scrollViewRef = useRef<ScrollView>(null);
+
+  useEffect(() => {
+    return () => stopSpeaking();
+  }, []);
+
+  // Persists against the latest stored history, which may have changed while waiting
+  const appendMessage = async (message: ChatMessage) => {
+    const history = getRecording(id)?.chatHistory ?? [];
+    await updateRecording(id, { chatHistory: [...history, message] });
+  };
+
+  const requestAnswer = async (text: string, history: ChatMessage[]) => {
+    const current = getRecording(id);
+    if (!current) return;
+
+    try {
+      setIsAsking(true);
+      setError(null);
+      const answer = await getAnalysisProvider(backend).askQuestion(current, text, history, {
+        auth: { getAccessToken, refreshAccessToken },
+      });
+      await appendMessage(createMessage('assistant', answer));
+    } catch (askError) {
+      console.error('Chat request failed:', askError);
+      setError(getChatErrorMessage(askError));
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const handleSend = async (text = question) => {
+    const trimmed = text.trim();
+    if (!trimmed || isAsking) return;
+
+    const history = getRecording(id)?.chatHistory ?? [];
+    setQuestion('');
+    await appendMessage(createMessage('user', trimmed));
+    await requestAnswer(trimmed, history);
+  };
+
+  // The last question is still unanswered after a failure
+  const handleRetry = () => {
+    const lastMessage = messages[messages.length - 1];
+    if (lastMessage?.role === 'user') {
+      requestAnswer(lastMessage.content, messages.slice(0, -1));
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear Conversation', 'Delete all questions and answers for this call?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => {
+          stopSpeaking();
+          setSpeakingId(null);
+          setError(null);
+          updateRecording(id, { chatHistory: [] });
+        },
+      },
+    ]);
+  };
+
+  const toggleSpeech = async (message: ChatMessage) => {
+    stopSpeaking();
+    if (speakingId === message.id) {
+      setSpeakingId(null);
+      return;
+    }
+
+    setSpeakingId(message.id);
+    await speakAloud(message.content, {
+      language: getSpeechLanguage(recording && getAnalysisLanguage(recording)),
+      onFinish: () => setSpeakingId(current => (current === message.id ? null : current)),
+      onError: () => Alert.alert('Speech Error', 'Unable to read the answer aloud. Please try again.'),
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Ask the Call</Text>
+            <Text style={styles.headerSubtitle} numberOfLines={1}>
+              {recording?.title ?? 'Recording not found'}
+            </Text>
+          </View>
+          {messages.length > 0 && (
+            <TouchableOpacity style={styles.headerIcon} onPress={handleClear}>
+              <MaterialIcons name="delete-sweep" size={28} color="#fff" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {!recording?.transcript ? (
+        <View style={styles.centered}>
+          <MaterialIcons name="forum" size={48} color="#999" />
+          <Text style={styles.missingText}>
+            {recording ? 'Analyze this recording first to ask questions about it.' : 'This recording no longer exists.'}
+          </Text>
+        </View>
+      ) : (
+        <KeyboardAvoidingView
+          style={styles.chatArea}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <ScrollView
+            ref={scrollViewRef}
+            style={styles.scrollableBody}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+            onContentSizeChange={() => scrollViewRef.current?.scrollToEnd({ animated: true })}
+          >
+            {messages.length === 0 && (
+              <View style={styles.suggestions}>
+                <Text style={styles.suggestionsTitle}>Ask anything about this call</Text>
+                {SUGGESTED_QUESTIONS.map(suggestion => (
+                  <Pressable key={suggestion} style={styles.suggestion} onPress={() => handleSend(suggestion)}>
+                    <Text style={styles.suggestionText}>{suggestion}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+
+            {messages.map(message =>
+              message.role === 'user' ? (
+                <View key={message.id} style={[styles.bubble, styles.userBubble]}>
+                  <Text style={styles.userText}>{message.content}</Text>
+                </View>
+              ) : (
+                <View key={message.id} style={[styles.bubble, styles.assistantBubble]}>
+                  <Markdown textStyle={styles.assistantText}>{message.content}</Markdown>
+                  <TouchableOpacity style={styles.listenButton} onPress={() => toggleSpeech(message)}>
+                    <MaterialIcons
+                      name={speakingId === message.id ? 'stop' : 'volume-up'}
+                      size={18}
+                      color={speakingId === message.id ? '#f44336' : '#4a7eb7'}
+                    />
+                    <Text style={[styles.listenText, speakingId === message.id && { color: '#f44336' }]}>
+                      {speakingId === message.id ? 'Stop' : 'Listen'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )
+            )}
+
+            {isAsking && (
+              <View style={[styles.bubble, styles.assistantBubble, styles.thinkingBubble]}>
+                <ActivityIndicator size="small" color="#4a7eb7" />
+                <Text style={styles.thinkingText}>Reading the call...</Text>
+              </View>
+            )}
+
+            {error && !isAsking && (
+              <View style={styles.errorBox}>
+                <Text style={styles.errorText}>{error}</Text>
+                <TouchableOpacity onPress={handleRetry}>
+                  <Text style={styles.retryText}>Try again</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </ScrollView>
+
+          <View style={styles.inputBar}>
+            <TextInput
+              style={styles.input}
+              value={question}
+              onChangeText={setQuestion}
+              placeholder="Ask about this call"
+              placeholderTextColor="#999"
+              multiline
+              editable={!isAsking}
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, (!question.trim() || isAsking) && styles.disabledButton]}
+              onPress={() => handleSend()}
+              disabled={!question.trim() || isAsking}
+            >
+              <MaterialIcons name="send" size={22} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  missingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  chatArea: {
+    flex: 1,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  suggestions: {
+    marginBottom: 12,
+  },
+  suggestionsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  suggestion: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+    padding: 12,
+    marginBottom: 8,
+  },
+  suggestionText: {
+    fontSize: 15,
+    color: '#4a7eb7',
+  },
+  bubble: {
+    maxWidth: '85%',
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 12,
+  },
+  userBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#4a7eb7',
+    borderBottomRightRadius: 4,
+  },
+  assistantBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#fff',
+    borderBottomLeftRadius: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  userText: {
+    fontSize: 15,
+    color: '#fff',
+    lineHeight: 21,
+  },
+  assistantText: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 21,
+  },
+  listenButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  listenText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4a7eb7',
+    marginLeft: 4,
+  },
+  thinkingBubble: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  thinkingText: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  errorBox: {
+    backgroundColor: '#ffebee',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#c62828',
+    marginBottom: 6,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4a7eb7',
+  },
+  inputBar: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: 12,
+    paddingBottom: 28,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  input: {
+    flex: 1,
+    minHeight: 44,
+    maxHeight: 120,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 22,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 12,
+    color: '#000',
+    fontSize: 16,
+  },
+  sendButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#4a7eb7',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,333 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { ListItemComparison, compareRecordings } from '../lib/callComparison';
+import { getRecordingAnalysis } from '../lib/salesCallAnalysis';
+import { SENTIMENT_COLORS } from './components/AnalysisSections';
+import { ComparisonTable } from './components/ComparisonTable';
+import { useRecordings } from './context/RecordingContext';
+import { CallSentiment } from './types/analysis';
+import { Recording } from './types/recording';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export default function CompareScreen() {
+  const { ids } = useLocalSearchParams<{ ids: string }>();
+  const { recordings } = useRecordings();
+  const [firstId, secondId] = ids?.split(',') ?? [];
+  const first = recordings.find(recording => recording.id === firstId);
+  const second = recordings.find(recording => recording.id === secondId);
+  const comparison = first && second ? compareRecordings(first, second) : null;
+
+  // Same-day calls need more than the date to tell apart
+  const sameDay =
+    comparison && formatDate(comparison.before.timestamp) === formatDate(comparison.after.timestamp);
+  const beforeLabel = comparison ? (sameDay ? 'Earlier' : formatDate(comparison.before.timestamp)) : '';
+  const afterLabel = comparison ? (sameDay ? 'Later' : formatDate(comparison.after.timestamp)) : '';
+
+  const renderCallHeader = (recording: Recording, label: string) => (
+    <TouchableOpacity style={styles.callColumn} onPress={() => router.push(`/recording/${recording.id}`)}>
+      <Text style={styles.columnLabel}>{label}</Text>
+      <Text style={styles.callTitle} numberOfLines={2}>
+        {recording.title}
+      </Text>
+      <Text style={styles.callDate}>{new Date(recording.timestamp).toLocaleString()}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderSentiment = (sentiment: CallSentiment | null) => (
+    <View style={styles.callColumn}>
+      {sentiment ? (
+        <View style={[styles.sentimentChip, { borderColor: SENTIMENT_COLORS[sentiment] }]}>
+          <Text style={[styles.sentimentText, { color: SENTIMENT_COLORS[sentiment] }]}>{sentiment}</Text>
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>No sentiment</Text>
+      )}
+    </View>
+  );
+
+  const renderItems = (items: ListItemComparison[], highlightColor: string) => (
+    <View style={styles.callColumn}>
+      {items.length === 0 ? (
+        <Text style={styles.emptyText}>None</Text>
+      ) : (
+        items.map((item, index) => (
+          <View key={index} style={[styles.listItem, !item.inBoth && { borderLeftColor: highlightColor }]}>
+            <Text style={styles.listText}>{item.text}</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Compare Calls</Text>
+            <Text style={styles.headerSubtitle}>
+              {comparison ? `${beforeLabel} vs ${afterLabel}` : 'Recording not found'}
+            </Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="compare-arrows" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      {!comparison ? (
+        <View style={styles.centered}>
+          <MaterialIcons name="error-outline" size={48} color="#999" />
+          <Text style={styles.missingText}>One of these recordings no longer exists.</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollableBody}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Calls */}
+          <View style={styles.card}>
+            <View style={styles.columns}>
+              {renderCallHeader(comparison.before, beforeLabel)}
+              {renderCallHeader(comparison.after, afterLabel)}
+            </View>
+            <View style={[styles.columns, styles.sentimentRow]}>
+              {renderSentiment(comparison.sentiment.before)}
+              {renderSentiment(comparison.sentiment.after)}
+            </View>
+          </View>
+
+          {/* Overview */}
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="auto-awesome" size={22} color="#4caf50" />
+              <Text style={styles.sectionTitle}>Overview</Text>
+            </View>
+            <ComparisonTable rows={comparison.overview} beforeLabel={beforeLabel} afterLabel={afterLabel} />
+          </View>
+
+          {/* Rubric */}
+          {comparison.rubric.length > 0 && (
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <MaterialIcons name="fact-check" size={22} color="#673ab7" />
+                <Text style={styles.sectionTitle}>Rubric</Text>
+              </View>
+              <ComparisonTable rows={comparison.rubric} beforeLabel={beforeLabel} afterLabel={afterLabel} />
+            </View>
+          )}
+
+          {/* Conversation Metrics */}
+          {comparison.metrics.length > 0 && (
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <MaterialIcons name="record-voice-over" size={22} color="#673ab7" />
+                <Text style={styles.sectionTitle}>Conversation Metrics</Text>
+              </View>
+              <ComparisonTable rows={comparison.metrics} beforeLabel={beforeLabel} afterLabel={afterLabel} />
+            </View>
+          )}
+
+          {/* Summary */}
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="notes" size={22} color="#4a7eb7" />
+              <Text style={styles.sectionTitle}>Summary</Text>
+            </View>
+            <View style={styles.columns}>
+              {[comparison.before, comparison.after].map(recording => (
+                <View key={recording.id} style={styles.callColumn}>
+                  <Text style={getRecordingAnalysis(recording)?.summary ? styles.listText : styles.emptyText}>
+                    {getRecordingAnalysis(recording)?.summary || 'Not analyzed yet'}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+
+          {/* Analysis Sections */}
+          {comparison.sections.map(section => (
+            <View key={section.key} style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <Text style={[styles.sectionTitle, styles.plainSectionTitle]}>{section.title}</Text>
+                <Text style={styles.sectionMeta}>
+                  {section.before.length} → {section.after.length}
+                </Text>
+              </View>
+              <View style={styles.columns}>
+                {renderItems(section.before, '#9e9e9e')}
+                {renderItems(section.after, '#4a7eb7')}
+              </View>
+            </View>
+          ))}
+
+          {comparison.sections.length > 0 && (
+            <Text style={styles.legendText}>
+              Marked items came up in only one of the two calls.
+            </Text>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  missingText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 12,
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginLeft: 8,
+  },
+  plainSectionTitle: {
+    marginLeft: 0,
+  },
+  sectionMeta: {
+    fontSize: 13,
+    color: '#999',
+  },
+  columns: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  callColumn: {
+    flex: 1,
+  },
+  columnLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  callTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#4a7eb7',
+  },
+  callDate: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  sentimentRow: {
+    marginTop: 12,
+  },
+  sentimentChip: {
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  sentimentText: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  listItem: {
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+    paddingLeft: 8,
+    marginBottom: 8,
+  },
+  listText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  legendText: {
+    fontSize: 13,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,126 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
+import { AnalysisProgress, AnalysisStage } from '../../lib/analysisClient';
+import { AnalysisSections } from './AnalysisSections';
+
+interface AnalysisProgressViewProps {
+  progress: AnalysisProgress;
+}
+
+const STAGES: { key: AnalysisStage; label: string }[] = [
+  { key: 'uploading', label: 'Uploading' },
+  { key: 'transcribing', label: 'Transcribing' },
+  { key: 'analyzing', label: 'Analyzing' },
+];
+
+const TRANSCRIPT_PREVIEW_LENGTH = 400;
+
+export function AnalysisProgressView({ progress }: AnalysisProgressViewProps) {
+  const activeIndex = STAGES.findIndex(stage => stage.key === progress.stage);
+  const transcriptPreview = progress.transcription && progress.transcription.length > TRANSCRIPT_PREVIEW_LENGTH
+    ? `…${progress.transcription.slice(-TRANSCRIPT_PREVIEW_LENGTH)}`
+    : progress.transcription;
+
+  return (
+    <View>
+      {STAGES.map((stage, index) => {
+        const isDone = index < activeIndex;
+        const isActive = index === activeIndex;
+        const label = stage.key === 'uploading' && isActive && progress.uploadProgress !== undefined
+          ? `${stage.label} ${Math.round(progress.uploadProgress * 100)}%`
+          : stage.label;
+
+        return (
+          <View key={stage.key} style={styles.stageRow}>
+            <View style={styles.stageIcon}>
+              {isActive ? (
+                <ActivityIndicator size="small" color="#4a7eb7" />
+              ) : (
+                <MaterialIcons
+                  name={isDone ? 'check-circle' : 'radio-button-unchecked'}
+                  size={20}
+                  color={isDone ? '#4caf50' : '#ccc'}
+                />
+              )}
+            </View>
+            <Text style={[styles.stageLabel, isActive && styles.activeStageLabel, !isDone && !isActive && styles.pendingStageLabel]}>
+              {label}
+            </Text>
+          </View>
+        );
+      })}
+
+      {progress.stage === 'uploading' && progress.uploadProgress !== undefined && (
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${progress.uploadProgress * 100}%` }]} />
+        </View>
+      )}
+
+      {!!transcriptPreview && (
+        <View style={styles.partialBlock}>
+          <Text style={styles.partialTitle}>Transcript so far</Text>
+          <Text style={styles.transcriptText}>{transcriptPreview}</Text>
+        </View>
+      )}
+
+      {progress.partialAnalysis && (
+        <View style={styles.partialBlock}>
+          <Text style={styles.partialTitle}>Analysis so far</Text>
+          <AnalysisSections analysis={progress.partialAnalysis} />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  stageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  stageIcon: {
+    width: 24,
+    alignItems: 'center',
+  },
+  stageLabel: {
+    fontSize: 16,
+    color: '#333',
+    marginLeft: 12,
+  },
+  activeStageLabel: {
+    color: '#4a7eb7',
+    fontWeight: '600',
+  },
+  pendingStageLabel: {
+    color: '#999',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E3F2FD',
+    overflow: 'hidden',
+    marginTop: 8,
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: '#4a7eb7',
+  },
+  partialBlock: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  partialTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  transcriptText: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,131 @@
+import { StyleSheet, Text, View } from 'react-native';
+import { Collapsible } from '../../components/Collapsible';
+import { Markdown } from '../../components/Markdown';
+import { ANALYSIS_SECTIONS } from '../../lib/salesCallAnalysis';
+import { CallSentiment, SalesCallAnalysis } from '../types/analysis';
+import { RubricScoreTable, getScoreColor } from './RubricScoreTable';
+
+interface AnalysisSectionsProps {
+  analysis: SalesCallAnalysis;
+}
+
+export const SENTIMENT_COLORS: Record<CallSentiment, string> = {
+  positive: '#4caf50',
+  neutral: '#9e9e9e',
+  negative: '#f44336',
+  mixed: '#ff9800',
+};
+
+export function AnalysisSections({ analysis }: AnalysisSectionsProps) {
+  const sections = ANALYSIS_SECTIONS.filter(section => analysis[section.key].length > 0);
+
+  return (
+    <View>
+      {(analysis.overallScore !== null || analysis.sentiment) && (
+        <View style={styles.overviewRow}>
+          {analysis.overallScore !== null && (
+            <View style={[styles.scoreBadge, { backgroundColor: getScoreColor(analysis.overallScore) }]}>
+              <Text style={styles.scoreValue}>{analysis.overallScore}</Text>
+              <Text style={styles.scoreLabel}>/ 100</Text>
+            </View>
+          )}
+          {analysis.sentiment && (
+            <View style={[styles.sentimentChip, { borderColor: SENTIMENT_COLORS[analysis.sentiment] }]}>
+              <Text style={[styles.sentimentText, { color: SENTIMENT_COLORS[analysis.sentiment] }]}>
+                {analysis.sentiment} sentiment
+              </Text>
+            </View>
+          )}
+        </View>
+      )}
+
+      {!!analysis.summary && <Markdown textStyle={styles.summaryText}>{analysis.summary}</Markdown>}
+
+      {!!analysis.rubricScores?.length && <RubricScoreTable scores={analysis.rubricScores} />}
+
+      {sections.map((section, index) => (
+        <View key={section.key} style={styles.sectionCard}>
+          <Collapsible
+            title={`${section.title} (${analysis[section.key].length})`}
+            defaultOpen={index === 0}
+          >
+            {analysis[section.key].map((item, itemIndex) => (
+              <View key={itemIndex} style={styles.bulletRow}>
+                <Text style={styles.bullet}>•</Text>
+                <View style={styles.bulletContent}>
+                  <Markdown textStyle={styles.bulletText}>{item}</Markdown>
+                </View>
+              </View>
+            ))}
+          </Collapsible>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overviewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    gap: 12,
+  },
+  scoreBadge: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  scoreValue: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  scoreLabel: {
+    fontSize: 14,
+    color: '#fff',
+    marginLeft: 4,
+  },
+  sentimentChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  sentimentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  summaryText: {
+    color: '#333',
+  },
+  sectionCard: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    padding: 12,
+    marginTop: 10,
+    overflow: 'hidden',
+  },
+  bulletRow: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  bullet: {
+    fontSize: 16,
+    color: '#4a7eb7',
+    marginRight: 8,
+    lineHeight: 22,
+  },
+  bulletContent: {
+    flex: 1,
+  },
+  bulletText: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,103 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+export interface BarChartDatum {
+  label: string;
+  // null leaves a gap, e.g. a week with no scored calls
+  value: number | null;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  // Defaults to the largest value
+  maxValue?: number;
+  height?: number;
+  getBarColor?: (value: number) => string;
+  formatValue?: (value: number) => string;
+}
+
+const DEFAULT_HEIGHT = 140;
+// Only every nth label fits under dense charts
+const MAX_LABELS = 7;
+
+export function BarChart({
+  data,
+  maxValue,
+  height = DEFAULT_HEIGHT,
+  getBarColor = () => '#4a7eb7',
+  formatValue = value => `${value}`,
+}: BarChartProps) {
+  const scaleMax = maxValue ?? Math.max(1, ...data.map(item => item.value ?? 0));
+  const labelEvery = Math.ceil(data.length / MAX_LABELS);
+  const showValues = data.length <= MAX_LABELS * 2;
+
+  return (
+    <View>
+      <View style={[styles.plot, { height }]}>
+        {data.map((item, index) => (
+          <View key={index} style={styles.column}>
+            {item.value !== null && showValues && (
+              <Text style={styles.valueText} numberOfLines={1}>{formatValue(item.value)}</Text>
+            )}
+            <View
+              style={[
+                styles.bar,
+                item.value === null
+                  ? styles.emptyBar
+                  : {
+                      height: Math.max(2, (item.value / scaleMax) * (height - 20)),
+                      backgroundColor: getBarColor(item.value),
+                    },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.labelRow}>
+        {data.map((item, index) => (
+          <Text key={index} style={styles.labelText} numberOfLines={1}>
+            {index % labelEvery === 0 ? item.label : ''}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  plot: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginHorizontal: 2,
+  },
+  bar: {
+    width: '70%',
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+  },
+  emptyBar: {
+    height: 2,
+    backgroundColor: '#f0f0f0',
+  },
+  valueText: {
+    fontSize: 10,
+    color: '#666',
+    marginBottom: 2,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    marginTop: 6,
+  },
+  labelText: {
+    flex: 1,
+    fontSize: 10,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
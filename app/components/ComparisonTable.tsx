@@ -0,0 +1,124 @@
+import { StyleSheet, Text, View } from 'react-native';
+import {
+  ComparisonRow,
+  ComparisonTrend,
+  formatComparisonDelta,
+  formatComparisonValue,
+} from '../../lib/callComparison';
+import { getScoreColor } from './RubricScoreTable';
+
+interface ComparisonTableProps {
+  rows: ComparisonRow[];
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const TREND_COLORS: Record<ComparisonTrend, string> = {
+  improved: '#4caf50',
+  declined: '#f44336',
+  unchanged: '#999',
+};
+
+export function ComparisonTable({ rows, beforeLabel, afterLabel }: ComparisonTableProps) {
+  const renderValue = (row: ComparisonRow, value: number | null) => (
+    <Text
+      style={[
+        styles.valueText,
+        styles.valueColumn,
+        row.kind === 'score' && value !== null && { color: getScoreColor(value) },
+      ]}
+    >
+      {formatComparisonValue(value, row.kind)}
+    </Text>
+  );
+
+  return (
+    <View>
+      <View style={[styles.row, styles.headerRow]}>
+        <Text style={[styles.headerText, styles.labelColumn]} />
+        <Text style={[styles.headerText, styles.valueColumn]} numberOfLines={1}>
+          {beforeLabel}
+        </Text>
+        <Text style={[styles.headerText, styles.valueColumn]} numberOfLines={1}>
+          {afterLabel}
+        </Text>
+        <Text style={[styles.headerText, styles.deltaColumn]}>Change</Text>
+      </View>
+
+      {rows.map(row => (
+        <View key={row.label} style={styles.row}>
+          <Text style={[styles.labelText, styles.labelColumn]}>{row.label}</Text>
+          {renderValue(row, row.before)}
+          {renderValue(row, row.after)}
+          <View style={styles.deltaColumn}>
+            {row.delta !== null && (
+              <View
+                style={[
+                  styles.deltaBadge,
+                  row.trend && row.trend !== 'unchanged' && { backgroundColor: `${TREND_COLORS[row.trend]}22` },
+                ]}
+              >
+                <Text style={[styles.deltaText, { color: row.trend ? TREND_COLORS[row.trend] : '#666' }]}>
+                  {formatComparisonDelta(row.delta, row.kind)}
+                </Text>
+              </View>
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  headerRow: {
+    paddingVertical: 6,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999',
+    textTransform: 'uppercase',
+  },
+  labelColumn: {
+    flex: 1,
+    paddingRight: 8,
+  },
+  valueColumn: {
+    width: 64,
+    textAlign: 'center',
+  },
+  deltaColumn: {
+    width: 64,
+    alignItems: 'flex-end',
+    textAlign: 'right',
+  },
+  labelText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  valueText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    fontVariant: ['tabular-nums'],
+  },
+  deltaBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  deltaText: {
+    fontSize: 13,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+});
@@ -0,0 +1,151 @@
+import { StyleSheet, Text, View } from 'react-native';
+import { ConversationMetrics } from '../../lib/conversationMetrics';
+import { formatTimestamp } from '../../lib/transcript';
+import { SPEAKER_COLORS } from './TranscriptView';
+
+interface ConversationMetricsViewProps {
+  metrics: ConversationMetrics;
+}
+
+export function ConversationMetricsView({ metrics }: ConversationMetricsViewProps) {
+  const fillerEntries = Object.entries(metrics.fillerWords).sort((a, b) => b[1] - a[1]);
+  const stats = [
+    { label: 'Words / min', value: metrics.wordsPerMinute !== null ? `${metrics.wordsPerMinute}` : '–' },
+    {
+      label: 'Longest monologue',
+      value: metrics.longestMonologue ? formatTimestamp(metrics.longestMonologue.seconds) : '–',
+    },
+    { label: 'Questions', value: `${metrics.questions}` },
+    { label: 'Interruptions', value: metrics.speakers.length > 0 ? `${metrics.interruptions}` : '–' },
+  ];
+
+  return (
+    <View>
+      {metrics.speakers.length > 0 ? (
+        <>
+          <Text style={styles.subheading}>Talk time</Text>
+          <View style={styles.ratioBar}>
+            {metrics.speakers.map((speaker, index) => (
+              <View
+                key={speaker.speaker}
+                style={{ flex: speaker.talkShare, backgroundColor: SPEAKER_COLORS[index % SPEAKER_COLORS.length] }}
+              />
+            ))}
+          </View>
+          {metrics.speakers.map((speaker, index) => (
+            <View key={speaker.speaker} style={styles.speakerRow}>
+              <View style={[styles.legendDot, { backgroundColor: SPEAKER_COLORS[index % SPEAKER_COLORS.length] }]} />
+              <Text style={styles.speakerName}>{speaker.speaker}</Text>
+              <Text style={styles.speakerDetail}>
+                {Math.round(speaker.talkShare * 100)}% · {speaker.wordsPerMinute ?? '–'} wpm · {speaker.questions} questions
+              </Text>
+            </View>
+          ))}
+        </>
+      ) : (
+        <Text style={styles.notice}>Speaker labels are not available, so talk time is not shown.</Text>
+      )}
+
+      <View style={styles.statsGrid}>
+        {stats.map(stat => (
+          <View key={stat.label} style={styles.statCell}>
+            <Text style={styles.statValue}>{stat.value}</Text>
+            <Text style={styles.statLabel}>{stat.label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.subheading}>Filler words ({metrics.fillerWordCount})</Text>
+      {fillerEntries.length > 0 ? (
+        <View style={styles.chipRow}>
+          {fillerEntries.map(([filler, count]) => (
+            <View key={filler} style={styles.chip}>
+              <Text style={styles.chipText}>“{filler}” × {count}</Text>
+            </View>
+          ))}
+        </View>
+      ) : (
+        <Text style={styles.notice}>No filler words detected.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  subheading: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+    marginTop: 4,
+  },
+  ratioBar: {
+    flexDirection: 'row',
+    height: 12,
+    borderRadius: 6,
+    overflow: 'hidden',
+    backgroundColor: '#f0f0f0',
+    marginBottom: 8,
+  },
+  speakerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  speakerName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginRight: 8,
+  },
+  speakerDetail: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  notice: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 8,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: 12,
+  },
+  statCell: {
+    width: '50%',
+    paddingVertical: 8,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  statLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 14,
+    backgroundColor: '#FFF3E0',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#e65100',
+  },
+});
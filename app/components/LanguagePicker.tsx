@@ -0,0 +1,73 @@
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { AUTO_DETECT_LANGUAGE, LANGUAGES, getLanguageLabel } from '../../lib/languages';
+
+interface LanguagePickerProps {
+  label: string;
+  // Undefined selects the "Default" chip
+  value?: string;
+  // Offers a chip that follows the default setting, shown with its current value
+  defaultLanguage?: string;
+  onChange: (language: string | undefined) => void;
+}
+
+export function LanguagePicker({ label, value, defaultLanguage, onChange }: LanguagePickerProps) {
+  const options: { key: string; value: string | undefined; label: string }[] = [
+    ...(defaultLanguage !== undefined
+      ? [{ key: 'default', value: undefined, label: `Default (${getLanguageLabel(defaultLanguage)})` }]
+      : []),
+    { key: AUTO_DETECT_LANGUAGE, value: AUTO_DETECT_LANGUAGE, label: getLanguageLabel(AUTO_DETECT_LANGUAGE) },
+    ...LANGUAGES.map(language => ({ key: language.code, value: language.code, label: language.label })),
+  ];
+
+  return (
+    <View>
+      <Text style={styles.label}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {options.map(option => {
+          const isSelected = option.value === value;
+          return (
+            <Pressable
+              key={option.key}
+              style={[styles.chip, isSelected && styles.selectedChip]}
+              onPress={() => onChange(option.value)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.selectedChipText]}>{option.label}</Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+    backgroundColor: '#fff',
+  },
+  selectedChip: {
+    backgroundColor: '#4a7eb7',
+    borderColor: '#4a7eb7',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#4a7eb7',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#fff',
+  },
+});
@@ -0,0 +1,39 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { StyleSheet, Text, View } from 'react-native';
+import { useAnalysisQueue } from '../context/AnalysisQueueContext';
+
+export function OfflineBanner() {
+  const { isOnline, jobs } = useAnalysisQueue();
+
+  if (isOnline) return null;
+
+  const waitingCount = jobs.filter(job => job.status === 'pending').length;
+
+  return (
+    <View style={styles.banner}>
+      <MaterialIcons name="cloud-off" size={20} color="#fff" />
+      <Text style={styles.bannerText}>
+        {waitingCount > 0
+          ? `You're offline. ${waitingCount} recording${waitingCount === 1 ? '' : 's'} will be analyzed when you reconnect.`
+          : "You're offline. New recordings will be analyzed when you reconnect."}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#757575',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+  },
+  bannerText: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 10,
+  },
+});
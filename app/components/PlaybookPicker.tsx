@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import { PLAYBOOKS, getPlaybook } from '../../lib/playbooks';
+import { PlaybookId } from '../types/playbook';
+
+interface PlaybookPickerProps {
+  value: PlaybookId;
+  customInstructions?: string;
+  onChange: (playbookId: PlaybookId) => void;
+  onCustomInstructionsChange: (instructions: string) => void;
+}
+
+export function PlaybookPicker({
+  value,
+  customInstructions,
+  onChange,
+  onCustomInstructionsChange,
+}: PlaybookPickerProps) {
+  const [instructions, setInstructions] = useState(customInstructions ?? '');
+
+  useEffect(() => {
+    setInstructions(customInstructions ?? '');
+  }, [customInstructions]);
+
+  return (
+    <View>
+      <Text style={styles.label}>Call type</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {PLAYBOOKS.map(playbook => {
+          const isSelected = playbook.id === value;
+          return (
+            <Pressable
+              key={playbook.id}
+              style={[styles.chip, isSelected && styles.selectedChip]}
+              onPress={() => onChange(playbook.id)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.selectedChipText]}>{playbook.name}</Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+      <Text style={styles.description}>{getPlaybook(value).description}</Text>
+
+      {value === 'custom' && (
+        <TextInput
+          style={styles.instructionsInput}
+          value={instructions}
+          onChangeText={setInstructions}
+          onBlur={() => {
+            if (instructions !== (customInstructions ?? '')) {
+              onCustomInstructionsChange(instructions);
+            }
+          }}
+          placeholder="e.g. Focus on how well security concerns were handled"
+          placeholderTextColor="#999"
+          multiline
+          textAlignVertical="top"
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+    backgroundColor: '#fff',
+  },
+  selectedChip: {
+    backgroundColor: '#4a7eb7',
+    borderColor: '#4a7eb7',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#4a7eb7',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#fff',
+  },
+  description: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 8,
+  },
+  instructionsInput: {
+    minHeight: 72,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+    fontSize: 15,
+    color: '#333',
+  },
+});
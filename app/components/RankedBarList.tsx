@@ -0,0 +1,73 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+interface RankedBarListProps {
+  items: { label: string; value: number }[];
+  maxValue?: number;
+  color?: string | ((value: number) => string);
+  formatValue?: (value: number) => string;
+}
+
+export function RankedBarList({
+  items,
+  maxValue,
+  color = '#4a7eb7',
+  formatValue = value => `${value}`,
+}: RankedBarListProps) {
+  const scaleMax = maxValue ?? Math.max(1, ...items.map(item => item.value));
+
+  return (
+    <View>
+      {items.map((item, index) => (
+        <View key={`${item.label}-${index}`} style={styles.row}>
+          <View style={styles.labelRow}>
+            <Text style={styles.label} numberOfLines={2}>{item.label}</Text>
+            <Text style={styles.value}>{formatValue(item.value)}</Text>
+          </View>
+          <View style={styles.track}>
+            <View
+              style={[
+                styles.fill,
+                {
+                  width: `${Math.min(100, (item.value / scaleMax) * 100)}%`,
+                  backgroundColor: typeof color === 'function' ? color(item.value) : color,
+                },
+              ]}
+            />
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    marginBottom: 12,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 4,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginRight: 8,
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  track: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#f0f0f0',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 8,
+    borderRadius: 4,
+  },
+});
@@ -5,21 +5,34 @@ import { Alert, Modal, StyleSheet, TextInput, TouchableOpacity, View } from 'rea
 import { ThemedText } from '../../components/ThemedText';
 import { ThemedView } from '../../components/ThemedView';
 import { IconSymbol } from '../../components/ui/IconSymbol';
+import { useAnalysisJob, useAnalysisQueue } from '../context/AnalysisQueueContext';
 import { useRecordings } from '../context/RecordingContext';
 import { Recording } from '../types/recording';
 
 interface RecordingItemProps {
   recording: Recording;
   index?: number;
+  // In selection mode a tap toggles the row instead of opening it
+  isSelecting?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: () => void;
 }
 
-export function RecordingItem({ recording, index = 0 }: RecordingItemProps) {
+export function RecordingItem({
+  recording,
+  index = 0,
+  isSelecting = false,
+  isSelected = false,
+  onToggleSelect,
+}: RecordingItemProps) {
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [newTitle, setNewTitle] = useState(recording.title);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const { deleteRecording, updateRecording } = useRecordings();
+  const { enqueueAnalysis, removeJob, isOnline } = useAnalysisQueue();
+  const job = useAnalysisJob(recording.id);
+  const isQueued = job?.status === 'pending' || job?.status === 'running';
 
   useEffect(() => {
     return sound
@@ -79,31 +92,33 @@ export function RecordingItem({ recording, index = 0 }: RecordingItemProps) {
       if (sound) {
         await sound.unloadAsync();
       }
+      await removeJob(recording.id);
       await deleteRecording(recording.id);
     } catch (error) {
       console.error('Error deleting recording:', error);
     }
   };
 
-  const handleAnalyze = async () => {
-    if (isAnalyzing) return;
-    
+  const handleOpen = () => {
+    router.push(`/recording/${recording.id}`);
+  };
+
+  const toggleAutoAnalyze = async () => {
     try {
-      setIsAnalyzing(true);
-      // Navigate to index page with recording info
-      router.push({
-        pathname: '/',
-        params: { 
-          recordingId: recording.id,
-          recordingTitle: recording.title,
-          recordingUri: recording.uri
-        }
-      });
+      const autoAnalyze = !recording.autoAnalyze;
+      await updateRecording(recording.id, { autoAnalyze });
+      // Opting out also withdraws an upload that is still waiting its turn
+      if (!autoAnalyze && job?.status === 'pending') {
+        await removeJob(recording.id);
+        await updateRecording(recording.id, { analysisStatus: undefined });
+      }
+      // Already online, so the reconnect handler won't pick it up
+      if (autoAnalyze && isOnline && !recording.analysis) {
+        await enqueueAnalysis(recording.id);
+      }
     } catch (error) {
-      console.error('Error analyzing recording:', error);
-      Alert.alert('Error', 'Failed to analyze recording');
-    } finally {
-      setIsAnalyzing(false);
+      console.error('Error updating auto-analyze:', error);
+      Alert.alert('Error', 'Failed to update automatic analysis');
     }
   };
 
@@ -125,6 +140,38 @@ export function RecordingItem({ recording, index = 0 }: RecordingItemProps) {
     return new Date(timestamp).toLocaleDateString();
   };
 
+  const getAnalysisLabel = () => {
+    if (job?.status === 'running') return 'Analyzing...';
+    if (job?.status === 'pending') {
+      if (!isOnline) return 'Waiting for network';
+      return job.attempts > 0 ? 'Retrying...' : 'Queued';
+    }
+    if (
+      recording.autoAnalyze &&
+      !recording.analysis &&
+      !isOnline &&
+      job?.status !== 'failed' &&
+      job?.status !== 'cancelled'
+    ) {
+      return 'Waiting for network';
+    }
+
+    switch (recording.analysisStatus) {
+      case 'completed':
+        return recording.analyzedAt
+          ? `Analyzed ${new Date(recording.analyzedAt).toLocaleDateString()}`
+          : 'Analyzed';
+      case 'pending':
+        return 'Analyzing...';
+      case 'failed':
+        return 'Analysis failed';
+      case 'cancelled':
+        return 'Cancelled';
+      default:
+        return 'Not analyzed';
+    }
+  };
+
   const getItemColor = (index: number) => {
     return '#c9d8e9';
   };
@@ -134,27 +181,53 @@ export function RecordingItem({ recording, index = 0 }: RecordingItemProps) {
       <ThemedView style={[styles.container, { backgroundColor: getItemColor(index) }]}>
         <TouchableOpacity 
           style={styles.infoContainer} 
-          onPress={handleAnalyze}
-          disabled={isAnalyzing}
+          onPress={isSelecting ? onToggleSelect : handleOpen}
         >
           <ThemedText type="defaultSemiBold" style={styles.titleText}>{recording.title}</ThemedText>
           <ThemedText style={styles.dateText}>{formatDate(recording.timestamp)}</ThemedText>
+          <View
+            style={[
+              styles.statusBadge,
+              recording.analysisStatus === 'failed' && !isQueued && styles.statusBadgeFailed,
+            ]}
+          >
+            <ThemedText style={styles.statusText}>{getAnalysisLabel()}</ThemedText>
+          </View>
         </TouchableOpacity>
-        <View style={styles.controlsContainer}>
-          <TouchableOpacity onPress={playRecording} style={styles.button}>
+        {isSelecting ? (
+          <TouchableOpacity onPress={onToggleSelect} style={[styles.controlsContainer, styles.button]}>
             <IconSymbol
-              name={isPlaying ? 'pause.fill' : 'play.fill'}
-              size={24}
-              color="#4a7eb7"
+              name={isSelected ? 'checkmark.circle.fill' : 'circle'}
+              size={28}
+              color={isSelected ? '#4a7eb7' : '#999'}
             />
           </TouchableOpacity>
-          <TouchableOpacity onPress={() => setIsEditing(true)} style={styles.button}>
-            <IconSymbol name="pencil" size={24} color="#4a7eb7" />
-          </TouchableOpacity>
-          <TouchableOpacity onPress={handleDelete} style={styles.button}>
-            <IconSymbol name="trash.fill" size={24} color="#f44336" />
-          </TouchableOpacity>
-        </View>
+        ) : (
+          <View style={styles.controlsContainer}>
+            {!recording.analysis && job?.status !== 'running' && (
+              <TouchableOpacity onPress={toggleAutoAnalyze} style={styles.button}>
+                <IconSymbol
+                  name={recording.autoAnalyze ? 'icloud.and.arrow.up' : 'icloud.slash'}
+                  size={24}
+                  color={recording.autoAnalyze ? '#4a7eb7' : '#999'}
+                />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={playRecording} style={styles.button}>
+              <IconSymbol
+                name={isPlaying ? 'pause.fill' : 'play.fill'}
+                size={24}
+                color="#4a7eb7"
+              />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setIsEditing(true)} style={styles.button}>
+              <IconSymbol name="pencil" size={24} color="#4a7eb7" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleDelete} style={styles.button}>
+              <IconSymbol name="trash.fill" size={24} color="#f44336" />
+            </TouchableOpacity>
+          </View>
+        )}
       </ThemedView>
 
       <Modal
@@ -229,6 +302,23 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginBottom: 2,
   },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#4a7eb7',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginTop: 2,
+  },
+  statusBadgeFailed: {
+    backgroundColor: '#f44336',
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '600',
+  },
   controlsContainer: {
     flexDirection: 'row',
     alignItems: 'center',
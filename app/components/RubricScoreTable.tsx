@@ -0,0 +1,115 @@
+import { StyleSheet, Text, View } from 'react-native';
+import { getWeightedScore } from '../../lib/rubric';
+import { CriterionScore } from '../types/analysis';
+
+interface RubricScoreTableProps {
+  scores: CriterionScore[];
+}
+
+export function getScoreColor(score: number) {
+  if (score >= 75) return '#4caf50';
+  if (score >= 50) return '#ff9800';
+  return '#f44336';
+}
+
+export function RubricScoreTable({ scores }: RubricScoreTableProps) {
+  const weightedScore = getWeightedScore(scores);
+
+  return (
+    <View style={styles.table}>
+      <View style={[styles.row, styles.headerRow]}>
+        <Text style={[styles.headerText, styles.criterionColumn]}>Criterion</Text>
+        <Text style={[styles.headerText, styles.weightColumn]}>Weight</Text>
+        <Text style={[styles.headerText, styles.scoreColumn]}>Score</Text>
+      </View>
+
+      {scores.map((item, index) => (
+        <View key={item.criterionId ?? `${item.name}-${index}`} style={styles.row}>
+          <View style={styles.criterionColumn}>
+            <Text style={styles.criterionName}>{item.name}</Text>
+            {item.rationale && <Text style={styles.rationale}>{item.rationale}</Text>}
+          </View>
+          <Text style={[styles.cellText, styles.weightColumn]}>×{item.weight}</Text>
+          <Text style={[styles.scoreText, styles.scoreColumn, { color: getScoreColor(item.score) }]}>
+            {item.score}
+          </Text>
+        </View>
+      ))}
+
+      {weightedScore !== null && (
+        <View style={[styles.row, styles.totalRow]}>
+          <Text style={[styles.totalLabel, styles.criterionColumn]}>Weighted score</Text>
+          <Text style={[styles.scoreText, styles.scoreColumn, { color: getScoreColor(weightedScore) }]}>
+            {weightedScore}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  table: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    marginTop: 10,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  headerRow: {
+    backgroundColor: '#f8f9fa',
+    borderTopWidth: 0,
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+  },
+  criterionColumn: {
+    flex: 1,
+  },
+  weightColumn: {
+    width: 56,
+    textAlign: 'center',
+  },
+  scoreColumn: {
+    width: 48,
+    textAlign: 'right',
+  },
+  criterionName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  rationale: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+    lineHeight: 18,
+  },
+  cellText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  scoreText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  totalRow: {
+    backgroundColor: '#f8f9fa',
+  },
+  totalLabel: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+});
@@ -0,0 +1,182 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { Alert, Pressable, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { DUE_DATE_OPTIONS, formatDueDate, isOverdue } from '../../lib/actionItems';
+import { useTasks } from '../context/TaskContext';
+import { Task } from '../types/task';
+
+interface TaskItemProps {
+  task: Task;
+  // Shown under the title when listing tasks from several calls
+  recordingTitle?: string;
+  onOpenRecording?: () => void;
+}
+
+export function TaskItem({ task, recordingTitle, onOpenRecording }: TaskItemProps) {
+  const { updateTask, deleteTask } = useTasks();
+  const [isEditing, setIsEditing] = useState(false);
+  const [owner, setOwner] = useState(task.owner ?? '');
+  const isDone = task.status === 'done';
+  const overdue = isOverdue(task);
+
+  const toggleStatus = () => {
+    updateTask(task.id, isDone ? { status: 'open', completedAt: undefined } : { status: 'done', completedAt: Date.now() });
+  };
+
+  const saveOwner = () => {
+    const trimmed = owner.trim();
+    if (trimmed !== (task.owner ?? '')) {
+      updateTask(task.id, { owner: trimmed || undefined });
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert('Delete Task', 'Remove this action item?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteTask(task.id) },
+    ]);
+  };
+
+  const details = [
+    task.owner,
+    task.dueAt !== undefined ? `Due ${formatDueDate(task.dueAt)}` : null,
+  ].filter(Boolean);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Pressable style={styles.checkbox} onPress={toggleStatus} hitSlop={8}>
+          <MaterialIcons
+            name={isDone ? 'check-circle' : 'radio-button-unchecked'}
+            size={24}
+            color={isDone ? '#4caf50' : '#999'}
+          />
+        </Pressable>
+        <Pressable style={styles.content} onPress={() => setIsEditing(editing => !editing)}>
+          <Text style={[styles.title, isDone && styles.doneTitle]}>{task.title}</Text>
+          {details.length > 0 && (
+            <Text style={[styles.details, overdue && styles.overdue]}>{details.join(' · ')}</Text>
+          )}
+          {recordingTitle && (
+            <Text style={styles.recordingLink} numberOfLines={1} onPress={onOpenRecording}>
+              {recordingTitle}
+            </Text>
+          )}
+        </Pressable>
+        <MaterialIcons name={isEditing ? 'expand-less' : 'expand-more'} size={22} color="#ccc" />
+      </View>
+
+      {isEditing && (
+        <View style={styles.editor}>
+          <TextInput
+            style={styles.ownerInput}
+            value={owner}
+            onChangeText={setOwner}
+            onBlur={saveOwner}
+            onSubmitEditing={saveOwner}
+            placeholder="Owner"
+            placeholderTextColor="#999"
+          />
+          <View style={styles.chipRow}>
+            {DUE_DATE_OPTIONS.map(option => (
+              <Pressable
+                key={option.label}
+                style={styles.chip}
+                onPress={() => updateTask(task.id, { dueAt: option.getDueAt(Date.now()) })}
+              >
+                <Text style={styles.chipText}>{option.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+            <MaterialIcons name="delete" size={18} color="#f44336" />
+            <Text style={styles.deleteText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+    paddingVertical: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  checkbox: {
+    marginRight: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 21,
+  },
+  doneTitle: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  details: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  overdue: {
+    color: '#f44336',
+    fontWeight: '600',
+  },
+  recordingLink: {
+    fontSize: 13,
+    color: '#4a7eb7',
+    marginTop: 2,
+  },
+  editor: {
+    marginTop: 10,
+    marginLeft: 36,
+  },
+  ownerInput: {
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    marginBottom: 10,
+    color: '#000',
+    backgroundColor: '#fff',
+    fontSize: 15,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4a7eb7',
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#f44336',
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,96 @@
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { TrackerHit, TrackerMention, getMentionSnippet, getTrackerCategory } from '../../lib/trackers';
+import { formatTimestamp } from '../../lib/transcript';
+
+interface TrackerMentionsViewProps {
+  hits: TrackerHit[];
+  onMentionPress?: (mention: TrackerMention) => void;
+}
+
+export function TrackerMentionsView({ hits, onMentionPress }: TrackerMentionsViewProps) {
+  return (
+    <View>
+      {hits.map(hit => {
+        const category = getTrackerCategory(hit.tracker.category);
+        return (
+          <View key={hit.tracker.id} style={styles.tracker}>
+            <View style={styles.trackerHeader}>
+              <View style={[styles.categoryDot, { backgroundColor: category.color }]} />
+              <Text style={styles.trackerName}>{hit.tracker.name}</Text>
+              <Text style={styles.trackerCount}>
+                {hit.count} {hit.count === 1 ? 'mention' : 'mentions'}
+              </Text>
+            </View>
+            {hit.mentions.map((mention, index) => {
+              const snippet = getMentionSnippet(mention);
+              const isTimed = mention.start !== undefined;
+              return (
+                <Pressable
+                  key={index}
+                  style={styles.mention}
+                  onPress={isTimed ? () => onMentionPress?.(mention) : undefined}
+                  disabled={!isTimed}
+                >
+                  {isTimed && <Text style={styles.timestamp}>{formatTimestamp(mention.start!)}</Text>}
+                  <Text style={styles.snippet}>
+                    {snippet.before}
+                    <Text style={[styles.highlight, { backgroundColor: `${category.color}33` }]}>{snippet.term}</Text>
+                    {snippet.after}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tracker: {
+    marginBottom: 12,
+  },
+  trackerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  categoryDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  trackerName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  trackerCount: {
+    fontSize: 13,
+    color: '#999',
+  },
+  mention: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    paddingLeft: 18,
+  },
+  timestamp: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4a7eb7',
+    width: 48,
+  },
+  snippet: {
+    flex: 1,
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  highlight: {
+    fontWeight: 'bold',
+    color: '#333',
+  },
+});
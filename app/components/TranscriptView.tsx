@@ -0,0 +1,108 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { formatTimestamp } from '../../lib/transcript';
+import { TranscriptSegment } from '../types/transcript';
+
+interface TranscriptViewProps {
+  segments?: TranscriptSegment[];
+  transcript?: string;
+  activeIndex?: number;
+  onSegmentPress?: (segment: TranscriptSegment) => void;
+}
+
+export const SPEAKER_COLORS = ['#4a7eb7', '#673ab7', '#4caf50', '#ff9800', '#009688', '#e91e63'];
+
+export function TranscriptView({ segments, transcript, activeIndex = -1, onSegmentPress }: TranscriptViewProps) {
+  if (!segments || segments.length === 0) {
+    if (!transcript) {
+      return <Text style={styles.emptyText}>No transcript available for this recording.</Text>;
+    }
+    return (
+      <View>
+        <Text style={styles.untimedNotice}>Timestamps are not available for this transcript.</Text>
+        <Text style={styles.segmentText}>{transcript}</Text>
+      </View>
+    );
+  }
+
+  // Colors are assigned in order of first appearance so they stay stable
+  const speakers = Array.from(new Set(segments.map(segment => segment.speaker).filter(Boolean)));
+
+  return (
+    <View>
+      {segments.map((segment, index) => {
+        const isActive = index === activeIndex;
+        const speakerColor = segment.speaker
+          ? SPEAKER_COLORS[speakers.indexOf(segment.speaker) % SPEAKER_COLORS.length]
+          : '#666';
+
+        return (
+          <TouchableOpacity
+            key={`${segment.start}-${index}`}
+            style={[styles.segment, isActive && styles.activeSegment]}
+            onPress={() => onSegmentPress?.(segment)}
+            disabled={!onSegmentPress}
+          >
+            <View style={styles.segmentHeader}>
+              <Text style={styles.timestamp}>{formatTimestamp(segment.start)}</Text>
+              {segment.speaker && (
+                <Text style={[styles.speaker, { color: speakerColor }]}>{segment.speaker}</Text>
+              )}
+            </View>
+            <Text style={[styles.segmentText, isActive && styles.activeText]}>{segment.text}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  segment: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    marginBottom: 4,
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+  },
+  activeSegment: {
+    backgroundColor: '#E3F2FD',
+    borderLeftColor: '#4a7eb7',
+  },
+  segmentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  timestamp: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4a7eb7',
+    fontVariant: ['tabular-nums'],
+  },
+  speaker: {
+    fontSize: 12,
+    fontWeight: '700',
+    marginLeft: 10,
+  },
+  segmentText: {
+    fontSize: 16,
+    color: '#333',
+    lineHeight: 24,
+  },
+  activeText: {
+    color: '#000',
+  },
+  untimedNotice: {
+    fontSize: 13,
+    color: '#999',
+    fontStyle: 'italic',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+});
@@ -0,0 +1,323 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { useAnalysisBackend } from '../../hooks/useAnalysisBackend';
+import { useIsOnline } from '../../hooks/useIsOnline';
+import { useLanguageSettings } from '../../hooks/useLanguageSettings';
+import { AnalysisError, AnalysisProgress, getAnalysisErrorMessage } from '../../lib/analysisClient';
+import { getAnalysisProvider } from '../../lib/analysisProvider';
+import { getLanguageRequest } from '../../lib/languages';
+import { archiveCurrentAnalysis, getPlaybookRequest } from '../../lib/playbooks';
+import { applyRubricWeights } from '../../lib/rubric';
+import { AnalysisJob, AnalysisQueueContextType } from '../types/analysisQueue';
+import { useAuth } from './AuthContext';
+import { useRecordings } from './RecordingContext';
+import { useRubric } from './RubricContext';
+
+const AnalysisQueueContext = createContext<AnalysisQueueContextType | undefined>(undefined);
+
+const STORAGE_KEY = '@analysisJobs';
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+function getRetryDelay(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+function isRetryable(error: unknown) {
+  if (!(error instanceof AnalysisError)) return true;
+  if (error.code === 'config' || error.code === 'unauthenticated' || error.code === 'aborted') {
+    return false;
+  }
+  // Client errors won't fix themselves, except rate limiting and timeouts
+  if (error.code === 'server' && error.status && error.status >= 400 && error.status < 500) {
+    return error.status === 408 || error.status === 429;
+  }
+  return true;
+}
+
+export function AnalysisQueueProvider({ children }: { children: React.ReactNode }) {
+  const { user, getAccessToken, refreshAccessToken } = useAuth();
+  const { recordings, isLoaded: recordingsLoaded, getRecording, updateRecording } = useRecordings();
+  const { rubric } = useRubric();
+  const backend = useAnalysisBackend();
+  const languageSettings = useLanguageSettings();
+  // The mock backend runs on the device, so there's nothing to wait for
+  const isOnline = useIsOnline() || backend.provider === 'mock';
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [progress, setProgress] = useState<Record<string, AnalysisProgress>>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Bumped to re-run the scheduler when a job finishes or a retry comes due
+  const [schedulerTick, setSchedulerTick] = useState(0);
+  const jobsRef = useRef<AnalysisJob[]>([]);
+  const isProcessingRef = useRef(false);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  const loadJobs = async () => {
+    try {
+      const storedJobs = await AsyncStorage.getItem(STORAGE_KEY);
+      if (storedJobs) {
+        const parsedJobs: AnalysisJob[] = JSON.parse(storedJobs);
+        // A job still marked running was interrupted by the app closing
+        jobsRef.current = parsedJobs
+          .filter(job => job.status !== 'done')
+          .map(job => (job.status === 'running' ? { ...job, status: 'pending' } : job));
+        setJobs(jobsRef.current);
+      }
+    } catch (error) {
+      console.error('Error loading analysis jobs:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+
+  const saveJobs = async (updatedJobs: AnalysisJob[]) => {
+    jobsRef.current = updatedJobs;
+    setJobs(updatedJobs);
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedJobs));
+    } catch (error) {
+      console.error('Error saving analysis jobs:', error);
+    }
+  };
+
+  const updateJob = async (recordingId: string, updates: Partial<AnalysisJob>) => {
+    await saveJobs(
+      jobsRef.current.map(job =>
+        job.recordingId === recordingId ? { ...job, ...updates, updatedAt: Date.now() } : job
+      )
+    );
+  };
+
+  const runJob = async (job: AnalysisJob) => {
+    isProcessingRef.current = true;
+    const attempts = job.attempts + 1;
+    const controller = new AbortController();
+    abortControllersRef.current.set(job.recordingId, controller);
+
+    try {
+      const recording = getRecording(job.recordingId);
+      if (!recording) {
+        // The recording was deleted while its job was waiting
+        await removeJob(job.recordingId);
+        return;
+      }
+
+      await updateJob(job.recordingId, { status: 'running', attempts });
+      await updateRecording(job.recordingId, { analysisStatus: 'pending' });
+
+      const playbook = getPlaybookRequest(recording);
+      const criteria = rubric.criteria;
+      const { language, translateTo } = getLanguageRequest(recording, languageSettings);
+      const result = await getAnalysisProvider(backend).analyzeRecording(recording, {
+        auth: { getAccessToken, refreshAccessToken },
+        signal: controller.signal,
+        playbook,
+        rubric: criteria,
+        language,
+        translateTo,
+        uploadId: job.uploadId,
+        onUploadSession: uploadId => {
+          updateJob(job.recordingId, { uploadId });
+        },
+        onProgress: jobProgress => {
+          setProgress(current => ({ ...current, [job.recordingId]: jobProgress }));
+        },
+      });
+
+      // Re-read: the recording may have been edited while the job ran
+      const previousAnalyses = archiveCurrentAnalysis(getRecording(job.recordingId) ?? recording);
+      await updateRecording(job.recordingId, {
+        transcript: result.transcription,
+        transcriptSegments: result.segments,
+        analysis: result.analysis,
+        structuredAnalysis: applyRubricWeights(result.structuredAnalysis, criteria),
+        analyzedAt: Date.now(),
+        analysisStatus: 'completed',
+        analysisPlaybookId: playbook.id,
+        detectedLanguage: result.language,
+        // Only what the server reports; it may ignore translate_to
+        analysisLanguage: result.analysisLanguage ?? result.language,
+        previousAnalyses,
+      });
+      await updateJob(job.recordingId, {
+        status: 'done',
+        lastError: undefined,
+        lastErrorCode: undefined,
+        uploadId: undefined,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        await markCancelled(job.recordingId);
+        return;
+      }
+
+      console.error(`Analysis attempt ${attempts} failed for ${job.recordingId}:`, error);
+      const lastError = getAnalysisErrorMessage(error);
+      const lastErrorCode = error instanceof AnalysisError ? error.code : undefined;
+
+      if (attempts < MAX_ATTEMPTS && isRetryable(error)) {
+        await updateJob(job.recordingId, {
+          status: 'pending',
+          lastError,
+          lastErrorCode,
+          nextAttemptAt: Date.now() + getRetryDelay(attempts),
+        });
+      } else {
+        await updateJob(job.recordingId, { status: 'failed', lastError, lastErrorCode });
+        await updateRecording(job.recordingId, { analysisStatus: 'failed' });
+      }
+    } finally {
+      abortControllersRef.current.delete(job.recordingId);
+      setProgress(({ [job.recordingId]: _finished, ...current }) => current);
+      isProcessingRef.current = false;
+      setSchedulerTick(tick => tick + 1);
+    }
+  };
+
+  // The scheduler only wakes when the queue changes, so it reaches the latest
+  // runJob through a ref
+  const runJobRef = useRef(runJob);
+  runJobRef.current = runJob;
+
+  // Runs one job at a time; when nothing is due, sleeps until the next retry.
+  // Paused while offline or signed out so attempts aren't burned on requests
+  // that can't succeed.
+  useEffect(() => {
+    if (!isLoaded || !recordingsLoaded || !isOnline || !user || isProcessingRef.current) return;
+
+    const now = Date.now();
+    const pendingJobs = jobs.filter(job => job.status === 'pending');
+    const dueJob = pendingJobs.find(job => job.nextAttemptAt <= now);
+
+    if (dueJob) {
+      runJobRef.current(dueJob);
+      return;
+    }
+
+    if (pendingJobs.length > 0) {
+      const nextAttemptAt = Math.min(...pendingJobs.map(job => job.nextAttemptAt));
+      const timeoutId = setTimeout(() => setSchedulerTick(tick => tick + 1), nextAttemptAt - now);
+      return () => clearTimeout(timeoutId);
+    }
+  }, [jobs, isLoaded, recordingsLoaded, isOnline, user, schedulerTick]);
+
+  const enqueueAnalysis = async (recordingId: string) => {
+    const existingJob = jobsRef.current.find(job => job.recordingId === recordingId);
+    if (existingJob && (existingJob.status === 'pending' || existingJob.status === 'running')) {
+      return;
+    }
+
+    const now = Date.now();
+    const job: AnalysisJob = {
+      recordingId,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      // A cancelled or failed upload picks up where it stopped
+      uploadId: existingJob?.status === 'done' ? undefined : existingJob?.uploadId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await saveJobs([...jobsRef.current.filter(job => job.recordingId !== recordingId), job]);
+    await updateRecording(recordingId, { analysisStatus: 'pending' });
+  };
+
+  // Reconnecting should only act when connectivity changes, so the latest
+  // recordings and handlers are read through refs
+  const recordingsRef = useRef(recordings);
+  recordingsRef.current = recordings;
+  const saveJobsRef = useRef(saveJobs);
+  saveJobsRef.current = saveJobs;
+  const enqueueAnalysisRef = useRef(enqueueAnalysis);
+  enqueueAnalysisRef.current = enqueueAnalysis;
+
+  // Back online: retry waiting jobs now and submit anything captured offline
+  useEffect(() => {
+    if (!isLoaded || !recordingsLoaded || !isOnline) return;
+
+    const now = Date.now();
+    if (jobsRef.current.some(job => job.status === 'pending' && job.nextAttemptAt > now)) {
+      saveJobsRef.current(
+        jobsRef.current.map(job =>
+          job.status === 'pending' ? { ...job, nextAttemptAt: now } : job
+        )
+      );
+    }
+
+    recordingsRef.current
+      .filter(
+        recording =>
+          recording.autoAnalyze &&
+          !recording.analysis &&
+          !jobsRef.current.some(job => job.recordingId === recording.id)
+      )
+      .forEach(recording => enqueueAnalysisRef.current(recording.id));
+  }, [isOnline, isLoaded, recordingsLoaded]);
+
+  const markCancelled = async (recordingId: string) => {
+    await updateJob(recordingId, { status: 'cancelled', lastError: undefined, lastErrorCode: undefined });
+    // Also opt out of automatic submission so reconnecting doesn't restart it
+    await updateRecording(recordingId, { analysisStatus: 'cancelled', autoAnalyze: false });
+  };
+
+  const cancelAnalysis = async (recordingId: string) => {
+    const controller = abortControllersRef.current.get(recordingId);
+    if (controller) {
+      // runJob records the cancellation once the request unwinds
+      controller.abort();
+      return;
+    }
+
+    const job = jobsRef.current.find(job => job.recordingId === recordingId);
+    if (job?.status === 'pending') {
+      await markCancelled(recordingId);
+    }
+  };
+
+  const removeJob = async (recordingId: string) => {
+    abortControllersRef.current.get(recordingId)?.abort();
+    await saveJobs(jobsRef.current.filter(job => job.recordingId !== recordingId));
+  };
+
+  const getJob = (recordingId: string) => {
+    return jobsRef.current.find(job => job.recordingId === recordingId);
+  };
+
+  return (
+    <AnalysisQueueContext.Provider
+      value={{
+        jobs,
+        isOnline,
+        progress,
+        enqueueAnalysis,
+        cancelAnalysis,
+        removeJob,
+        getJob,
+      }}>
+      {children}
+    </AnalysisQueueContext.Provider>
+  );
+}
+
+export function useAnalysisQueue() {
+  const context = useContext(AnalysisQueueContext);
+  if (context === undefined) {
+    throw new Error('useAnalysisQueue must be used within an AnalysisQueueProvider');
+  }
+  return context;
+}
+
+export function useAnalysisJob(recordingId: string | null | undefined) {
+  const { jobs } = useAnalysisQueue();
+  return recordingId ? jobs.find(job => job.recordingId === recordingId) : undefined;
+}
+
+export function useAnalysisProgress(recordingId: string | null | undefined) {
+  const { progress } = useAnalysisQueue();
+  return recordingId ? progress[recordingId] : undefined;
+}
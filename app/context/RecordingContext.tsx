@@ -1,5 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import { Recording, RecordingContextType } from '../types/recording';
 
 const RecordingContext = createContext<RecordingContextType | undefined>(undefined);
@@ -8,6 +8,10 @@ const STORAGE_KEY = '@recordings';
 
 export function RecordingProvider({ children }: { children: React.ReactNode }) {
   const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Analysis results are written back asynchronously, so writes must start
+  // from the latest list rather than the one captured at render time.
+  const recordingsRef = useRef<Recording[]>([]);
 
   useEffect(() => {
     loadRecordings();
@@ -17,53 +21,73 @@ export function RecordingProvider({ children }: { children: React.ReactNode }) {
     try {
       const storedRecordings = await AsyncStorage.getItem(STORAGE_KEY);
       if (storedRecordings) {
-        setRecordings(JSON.parse(storedRecordings));
+        recordingsRef.current = JSON.parse(storedRecordings);
+        setRecordings(recordingsRef.current);
       }
     } catch (error) {
       console.error('Error loading recordings:', error);
+    } finally {
+      setIsLoaded(true);
     }
   };
 
-  const addRecording = async (recording: Recording) => {
+  const saveRecordings = async (updatedRecordings: Recording[]) => {
+    const previousRecordings = recordingsRef.current;
+    recordingsRef.current = updatedRecordings;
     try {
-      const updatedRecordings = [...recordings, recording];
       await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedRecordings));
-      setRecordings(updatedRecordings);
+    } catch (error) {
+      // Roll back unless a later write has already moved on from this one
+      if (recordingsRef.current === updatedRecordings) {
+        recordingsRef.current = previousRecordings;
+      }
+      throw error;
+    }
+    setRecordings(updatedRecordings);
+  };
+
+  const addRecording = async (recording: Recording) => {
+    try {
+      const updatedRecordings = [...recordingsRef.current, recording];
+      await saveRecordings(updatedRecordings);
     } catch (error) {
       console.error('Error adding recording:', error);
+      // Callers show their own "failed to save" message
+      throw error;
     }
   };
 
   const deleteRecording = async (id: string) => {
     try {
-      const updatedRecordings = recordings.filter(recording => recording.id !== id);
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedRecordings));
-      setRecordings(updatedRecordings);
+      const updatedRecordings = recordingsRef.current.filter(recording => recording.id !== id);
+      await saveRecordings(updatedRecordings);
     } catch (error) {
       console.error('Error deleting recording:', error);
+      throw error;
     }
   };
 
   const updateRecording = async (id: string, updates: Partial<Recording>) => {
     try {
-      const updatedRecordings = recordings.map(recording =>
+      const updatedRecordings = recordingsRef.current.map(recording =>
         recording.id === id ? { ...recording, ...updates } : recording
       );
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedRecordings));
-      setRecordings(updatedRecordings);
+      await saveRecordings(updatedRecordings);
     } catch (error) {
       console.error('Error updating recording:', error);
+      throw error;
     }
   };
 
   const getRecording = (id: string) => {
-    return recordings.find(recording => recording.id === id);
+    return recordingsRef.current.find(recording => recording.id === id);
   };
 
   return (
     <RecordingContext.Provider
       value={{
         recordings,
+        isLoaded,
         addRecording,
         deleteRecording,
         updateRecording,
@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { supabase } from '../../lib/supabase';
+import { Rubric, RubricContextType, RubricCriterion } from '../types/rubric';
+import { useAuth } from './AuthContext';
+
+const RubricContext = createContext<RubricContextType | undefined>(undefined);
+
+const STORAGE_KEY = '@rubric';
+const RUBRICS_TABLE = 'rubrics';
+const EMPTY_RUBRIC: Rubric = { criteria: [], updatedAt: 0 };
+
+export function RubricProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [rubric, setRubric] = useState<Rubric>(EMPTY_RUBRIC);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const rubricRef = useRef<Rubric>(EMPTY_RUBRIC);
+
+  useEffect(() => {
+    loadRubric();
+  }, []);
+
+  const loadRubric = async () => {
+    try {
+      const storedRubric = await AsyncStorage.getItem(STORAGE_KEY);
+      if (storedRubric) {
+        rubricRef.current = JSON.parse(storedRubric);
+        setRubric(rubricRef.current);
+      }
+    } catch (error) {
+      console.error('Error loading rubric:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+
+  const storeRubric = useCallback(async (updatedRubric: Rubric) => {
+    rubricRef.current = updatedRubric;
+    setRubric(updatedRubric);
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedRubric));
+  }, []);
+
+  const pushToAccount = useCallback(async (userId: string, updatedRubric: Rubric) => {
+    const { error } = await supabase.from(RUBRICS_TABLE).upsert(
+      {
+        user_id: userId,
+        criteria: updatedRubric.criteria,
+        updated_at: new Date(updatedRubric.updatedAt).toISOString(),
+      },
+      { onConflict: 'user_id' }
+    );
+    if (error) {
+      console.error('Error syncing rubric:', error);
+    }
+    return { error };
+  }, []);
+
+  const syncFromAccount = useCallback(async (userId: string) => {
+    const { data, error } = await supabase
+      .from(RUBRICS_TABLE)
+      .select('criteria, updated_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching rubric:', error);
+      return;
+    }
+
+    const updatedAt = data ? new Date(data.updated_at).getTime() : 0;
+    if (data && updatedAt > rubricRef.current.updatedAt && Array.isArray(data.criteria)) {
+      try {
+        await storeRubric({ criteria: data.criteria, updatedAt });
+      } catch (storeError) {
+        console.error('Error saving rubric:', storeError);
+      }
+    } else if (rubricRef.current.updatedAt > updatedAt) {
+      await pushToAccount(userId, rubricRef.current);
+    }
+  }, [storeRubric, pushToAccount]);
+
+  // Whichever copy was edited last wins, e.g. a change made on another device
+  // or one saved on this device while signed out
+  useEffect(() => {
+    if (isLoaded && userId) {
+      syncFromAccount(userId);
+    }
+  }, [isLoaded, userId, syncFromAccount]);
+
+  const saveRubric = async (criteria: RubricCriterion[]) => {
+    const updatedRubric = { criteria, updatedAt: Date.now() };
+    try {
+      await storeRubric(updatedRubric);
+    } catch (error) {
+      console.error('Error saving rubric:', error);
+      return { error };
+    }
+
+    return user ? pushToAccount(user.id, updatedRubric) : { error: null };
+  };
+
+  return (
+    <RubricContext.Provider value={{ rubric, isLoaded, saveRubric }}>
+      {children}
+    </RubricContext.Provider>
+  );
+}
+
+export function useRubric() {
+  const context = useContext(RubricContext);
+  if (context === undefined) {
+    throw new Error('useRubric must be used within a RubricProvider');
+  }
+  return context;
+}
@@ -0,0 +1,207 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { router } from 'expo-router';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { parseActionItems } from '../../lib/actionItems';
+import { getRecordingAnalysis } from '../../lib/salesCallAnalysis';
+import { addReminderResponseListener, requestReminderPermission, syncTaskReminders } from '../../lib/taskReminders';
+import { Task, TaskContextType } from '../types/task';
+import { useRecordings } from './RecordingContext';
+
+const TaskContext = createContext<TaskContextType | undefined>(undefined);
+
+const STORAGE_KEY = '@tasks';
+// recordingId -> analyzedAt of the analysis its action items were taken from
+const IMPORTS_STORAGE_KEY = '@taskImports';
+const NOTIFICATIONS_STORAGE_KEY = '@notificationsEnabled';
+
+const createTaskId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function TaskProvider({ children }: { children: React.ReactNode }) {
+  const { recordings, isLoaded: recordingsLoaded } = useRecordings();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [notificationsEnabled, setNotificationsEnabledState] = useState(true);
+  const tasksRef = useRef<Task[]>([]);
+  const importsRef = useRef<Record<string, number>>({});
+  // Read when reminders are built, so renaming a call doesn't reschedule everything
+  const recordingsRef = useRef(recordings);
+  recordingsRef.current = recordings;
+
+  useEffect(() => {
+    loadTasks();
+    return addReminderResponseListener(recordingId => router.push(`/recording/${recordingId}`));
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const getRecordingTitle = (recordingId: string) =>
+      recordingsRef.current.find(recording => recording.id === recordingId)?.title;
+    syncTaskReminders(tasks, notificationsEnabled, getRecordingTitle).catch(error => {
+      console.error('Error scheduling task reminders:', error);
+    });
+  }, [isLoaded, tasks, notificationsEnabled]);
+
+  const loadTasks = async () => {
+    try {
+      const [storedTasks, storedImports, storedNotifications] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEY),
+        AsyncStorage.getItem(IMPORTS_STORAGE_KEY),
+        AsyncStorage.getItem(NOTIFICATIONS_STORAGE_KEY),
+      ]);
+      if (storedTasks) {
+        tasksRef.current = JSON.parse(storedTasks);
+        setTasks(tasksRef.current);
+      }
+      if (storedImports) {
+        importsRef.current = JSON.parse(storedImports);
+      }
+      if (storedNotifications) {
+        setNotificationsEnabledState(JSON.parse(storedNotifications));
+      }
+    } catch (error) {
+      console.error('Error loading tasks:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+
+  const saveTasks = useCallback(async (updatedTasks: Task[]) => {
+    tasksRef.current = updatedTasks;
+    setTasks(updatedTasks);
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedTasks));
+    } catch (error) {
+      console.error('Error saving tasks:', error);
+    }
+  }, []);
+
+  const storeNotificationsEnabled = useCallback(async (enabled: boolean) => {
+    setNotificationsEnabledState(enabled);
+    try {
+      await AsyncStorage.setItem(NOTIFICATIONS_STORAGE_KEY, JSON.stringify(enabled));
+    } catch (error) {
+      console.error('Error saving notification setting:', error);
+    }
+  }, []);
+
+  // Asked for once a task actually has a due date; refusing turns reminders
+  // off so the Profile switch doesn't claim they are on
+  const askForReminderPermission = useCallback(async () => {
+    const granted = await requestReminderPermission().catch(error => {
+      console.error('Error requesting notification permission:', error);
+      return false;
+    });
+    if (!granted) await storeNotificationsEnabled(false);
+  }, [storeNotificationsEnabled]);
+
+  const setNotificationsEnabled = async (enabled: boolean) => {
+    if (enabled) {
+      const granted = await requestReminderPermission().catch(error => {
+        console.error('Error requesting notification permission:', error);
+        return false;
+      });
+      if (!granted) return false;
+    }
+
+    await storeNotificationsEnabled(enabled);
+    return true;
+  };
+
+  const importActionItems = useCallback(async () => {
+    const recordingIds = new Set(recordings.map(recording => recording.id));
+    let updatedTasks = tasksRef.current.filter(task => recordingIds.has(task.recordingId));
+    let hasUpcomingDueDate = false;
+    const imports = Object.fromEntries(
+      Object.entries(importsRef.current).filter(([recordingId]) => recordingIds.has(recordingId))
+    );
+
+    recordings.forEach(recording => {
+      const analysis = recording.analyzedAt ? getRecordingAnalysis(recording) : null;
+      if (!analysis || imports[recording.id] === recording.analyzedAt) return;
+
+      const existingTitles = new Set(
+        updatedTasks.filter(task => task.recordingId === recording.id).map(task => task.title.toLowerCase())
+      );
+      const now = Date.now();
+      const newTasks = parseActionItems(analysis.nextSteps, recording.timestamp)
+        .filter(item => !existingTitles.has(item.title.toLowerCase()))
+        .map(item => ({ ...item, id: createTaskId(), recordingId: recording.id, status: 'open' as const, createdAt: now }));
+      updatedTasks = [...updatedTasks, ...newTasks];
+      hasUpcomingDueDate ||= newTasks.some(task => task.dueAt !== undefined && task.dueAt > now);
+      imports[recording.id] = recording.analyzedAt!;
+    });
+
+    const importsChanged = JSON.stringify(imports) !== JSON.stringify(importsRef.current);
+    if (importsChanged) {
+      importsRef.current = imports;
+      try {
+        await AsyncStorage.setItem(IMPORTS_STORAGE_KEY, JSON.stringify(imports));
+      } catch (error) {
+        console.error('Error saving task imports:', error);
+      }
+    }
+    // Reminders for imported next steps are the main reason to allow notifications
+    if (hasUpcomingDueDate && notificationsEnabled) {
+      await askForReminderPermission();
+    }
+    if (updatedTasks.length !== tasksRef.current.length || importsChanged) {
+      await saveTasks(updatedTasks);
+    }
+  }, [recordings, saveTasks, notificationsEnabled, askForReminderPermission]);
+
+  // New or re-run analyses add their next steps; deleted recordings take their tasks along
+  useEffect(() => {
+    if (isLoaded && recordingsLoaded) {
+      importActionItems();
+    }
+  }, [isLoaded, recordingsLoaded, importActionItems]);
+
+  const requestPermissionForDueDate = async (dueAt?: number) => {
+    if (dueAt !== undefined && notificationsEnabled) {
+      await askForReminderPermission();
+    }
+  };
+
+  const addTask = async (task: Omit<Task, 'id' | 'status' | 'createdAt'>) => {
+    await requestPermissionForDueDate(task.dueAt);
+    await saveTasks([...tasksRef.current, { ...task, id: createTaskId(), status: 'open', createdAt: Date.now() }]);
+  };
+
+  const updateTask = async (id: string, updates: Partial<Task>) => {
+    await requestPermissionForDueDate(updates.dueAt);
+    await saveTasks(tasksRef.current.map(task => (task.id === id ? { ...task, ...updates } : task)));
+  };
+
+  const deleteTask = async (id: string) => {
+    await saveTasks(tasksRef.current.filter(task => task.id !== id));
+  };
+
+  const getRecordingTasks = (recordingId: string) => {
+    return tasks.filter(task => task.recordingId === recordingId);
+  };
+
+  return (
+    <TaskContext.Provider
+      value={{
+        tasks,
+        isLoaded,
+        notificationsEnabled,
+        setNotificationsEnabled,
+        addTask,
+        updateTask,
+        deleteTask,
+        getRecordingTasks,
+      }}>
+      {children}
+    </TaskContext.Provider>
+  );
+}
+
+export function useTasks() {
+  const context = useContext(TaskContext);
+  if (context === undefined) {
+    throw new Error('useTasks must be used within a TaskProvider');
+  }
+  return context;
+}
@@ -0,0 +1,73 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { Tracker, TrackerContextType } from '../types/tracker';
+
+const TrackerContext = createContext<TrackerContextType | undefined>(undefined);
+
+const STORAGE_KEY = '@trackers';
+
+export function TrackerProvider({ children }: { children: React.ReactNode }) {
+  const [trackers, setTrackers] = useState<Tracker[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const trackersRef = useRef<Tracker[]>([]);
+
+  useEffect(() => {
+    loadTrackers();
+  }, []);
+
+  const loadTrackers = async () => {
+    try {
+      const storedTrackers = await AsyncStorage.getItem(STORAGE_KEY);
+      if (storedTrackers) {
+        trackersRef.current = JSON.parse(storedTrackers);
+        setTrackers(trackersRef.current);
+      }
+    } catch (error) {
+      console.error('Error loading trackers:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+
+  const saveTrackers = async (updatedTrackers: Tracker[]) => {
+    trackersRef.current = updatedTrackers;
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedTrackers));
+    setTrackers(updatedTrackers);
+  };
+
+  // Adds the tracker, or replaces the one with the same id
+  const saveTracker = async (tracker: Tracker) => {
+    try {
+      const exists = trackersRef.current.some(item => item.id === tracker.id);
+      await saveTrackers(
+        exists
+          ? trackersRef.current.map(item => (item.id === tracker.id ? tracker : item))
+          : [...trackersRef.current, tracker]
+      );
+    } catch (error) {
+      console.error('Error saving tracker:', error);
+    }
+  };
+
+  const deleteTracker = async (id: string) => {
+    try {
+      await saveTrackers(trackersRef.current.filter(tracker => tracker.id !== id));
+    } catch (error) {
+      console.error('Error deleting tracker:', error);
+    }
+  };
+
+  return (
+    <TrackerContext.Provider value={{ trackers, isLoaded, saveTracker, deleteTracker }}>
+      {children}
+    </TrackerContext.Provider>
+  );
+}
+
+export function useTrackers() {
+  const context = useContext(TrackerContext);
+  if (context === undefined) {
+    throw new Error('useTrackers must be used within a TrackerProvider');
+  }
+  return context;
+}
@@ -0,0 +1,304 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  CRM_EXPORT_FORMATS,
+  loadCrmFieldMapping,
+  shareCrmExport,
+  toCrmCsv,
+  toCrmJson,
+} from '../../lib/crmExport';
+import { useRecordings } from '../context/RecordingContext';
+import { CrmExportFormat, CrmFieldMapping } from '../types/crmExport';
+
+// Lines of the file shown before exporting
+const PREVIEW_LINES = 12;
+
+export default function CrmExportScreen() {
+  const { ids } = useLocalSearchParams<{ ids: string }>();
+  const { recordings } = useRecordings();
+  const [format, setFormat] = useState<CrmExportFormat>('csv');
+  const [mapping, setMapping] = useState<CrmFieldMapping | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const selectedIds = new Set(ids?.split(',') ?? []);
+  const selected = recordings.filter(recording => selectedIds.has(recording.id));
+
+  // Picks up changes made on the field mapping screen
+  useFocusEffect(
+    useCallback(() => {
+      loadCrmFieldMapping().then(setMapping);
+    }, [])
+  );
+
+  const preview = mapping
+    ? (format === 'csv' ? toCrmCsv(selected, mapping) : toCrmJson(selected, mapping)).split(/\r?\n/)
+    : [];
+
+  const handleExport = async () => {
+    if (!mapping) return;
+    setIsExporting(true);
+    try {
+      await shareCrmExport(selected, mapping, format);
+    } catch (error) {
+      console.error('Error exporting calls:', error);
+      Alert.alert('Export Failed', 'The export file could not be created or shared.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Export to CRM</Text>
+            <Text style={styles.headerSubtitle}>
+              {selected.length === 1 ? '1 call selected' : `${selected.length} calls selected`}
+            </Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="ios-share" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      {!mapping ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#4a7eb7" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollableBody}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Format */}
+          <View style={styles.formatRow}>
+            {CRM_EXPORT_FORMATS.map(item => (
+              <Pressable
+                key={item.key}
+                style={[styles.formatChip, format === item.key && styles.selectedFormatChip]}
+                onPress={() => setFormat(item.key)}
+              >
+                <Text style={[styles.formatText, format === item.key && styles.selectedFormatText]}>{item.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {/* Calls */}
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="call" size={22} color="#4a7eb7" />
+              <Text style={styles.sectionTitle}>Calls</Text>
+            </View>
+            {selected.length === 0 ? (
+              <Text style={styles.helperText}>The selected recordings no longer exist.</Text>
+            ) : (
+              selected.map(recording => (
+                <View key={recording.id} style={styles.callRow}>
+                  <Text style={styles.callTitle} numberOfLines={1}>
+                    {recording.title}
+                  </Text>
+                  <Text style={styles.callDate}>{new Date(recording.timestamp).toLocaleDateString()}</Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          {/* Preview */}
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="table-chart" size={22} color="#673ab7" />
+              <Text style={styles.sectionTitle}>Preview</Text>
+              <TouchableOpacity onPress={() => router.push('/settings/crm')}>
+                <Text style={styles.linkText}>Field mapping</Text>
+              </TouchableOpacity>
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <Text style={styles.previewText}>
+                {preview.slice(0, PREVIEW_LINES).join('\n')}
+                {preview.length > PREVIEW_LINES ? '\n…' : ''}
+              </Text>
+            </ScrollView>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.exportButton, (isExporting || selected.length === 0) && styles.disabledButton]}
+            onPress={handleExport}
+            disabled={isExporting || selected.length === 0}
+          >
+            {isExporting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <MaterialIcons name="share" size={20} color="#fff" />
+            )}
+            <Text style={styles.buttonText}>Export {format.toUpperCase()}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  formatRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  formatChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  selectedFormatChip: {
+    backgroundColor: '#4a7eb7',
+    borderColor: '#4a7eb7',
+  },
+  formatText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4a7eb7',
+  },
+  selectedFormatText: {
+    color: '#fff',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginLeft: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4a7eb7',
+  },
+  helperText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  callRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  callTitle: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+    marginRight: 12,
+  },
+  callDate: {
+    fontSize: 13,
+    color: '#999',
+  },
+  previewText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+    lineHeight: 18,
+    color: '#333',
+  },
+  exportButton: {
+    flexDirection: 'row',
+    backgroundColor: '#4a7eb7',
+    padding: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
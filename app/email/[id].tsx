@@ -0,0 +1,357 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import * as Linking from 'expo-linking';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { EMAIL_TONES, buildMailtoUrl, draftFollowUpEmail } from '../../lib/followUpEmail';
+import { useRecordings } from '../context/RecordingContext';
+import { EmailTone } from '../types/followUp';
+
+export default function FollowUpEmailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { recordings, updateRecording } = useRecordings();
+  const recording = recordings.find(item => item.id === id);
+  const [tone, setTone] = useState<EmailTone>('friendly');
+  const [to, setTo] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  // Whether the text differs from a freshly generated draft
+  const [isEdited, setIsEdited] = useState(false);
+  const isGenericDraft = recording ? draftFollowUpEmail(recording, tone).isGeneric : false;
+  // The form is filled once per recording, not on every save back to it
+  const loadedRecordingIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!recording || loadedRecordingIdRef.current === recording.id) return;
+    loadedRecordingIdRef.current = recording.id;
+
+    const saved = recording.followUpEmail;
+    if (saved) {
+      setTone(saved.tone);
+      setTo(saved.to);
+      setSubject(saved.subject);
+      setBody(saved.body);
+      setIsEdited(true);
+    } else {
+      const draft = draftFollowUpEmail(recording, tone);
+      setSubject(draft.subject);
+      setBody(draft.body);
+    }
+  }, [recording, tone]);
+
+  const saveDraft = (updates: { tone?: EmailTone; to?: string; subject?: string; body?: string } = {}) => {
+    if (!recording) return;
+    updateRecording(recording.id, {
+      followUpEmail: { tone, to, subject, body, ...updates, updatedAt: Date.now() },
+    });
+  };
+
+  const applyTone = (newTone: EmailTone) => {
+    if (!recording) return;
+
+    const regenerate = () => {
+      const draft = draftFollowUpEmail(recording, newTone);
+      setTone(newTone);
+      setSubject(draft.subject);
+      setBody(draft.body);
+      setIsEdited(false);
+      saveDraft({ tone: newTone, subject: draft.subject, body: draft.body });
+    };
+
+    if (!isEdited) {
+      regenerate();
+      return;
+    }
+    Alert.alert('Rewrite Email', 'Switching tone replaces your edits with a new draft.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Rewrite', style: 'destructive', onPress: regenerate },
+    ]);
+  };
+
+  const handleShare = async () => {
+    saveDraft();
+    try {
+      await Share.share({ title: subject, message: `Subject: ${subject}\n\n${body}` });
+    } catch (error) {
+      console.error('Error sharing email:', error);
+      Alert.alert('Error', 'Failed to open the share sheet');
+    }
+  };
+
+  const handleOpenMail = async () => {
+    saveDraft();
+    try {
+      await Linking.openURL(buildMailtoUrl(to, subject, body));
+    } catch (error) {
+      console.error('Error opening mail app:', error);
+      Alert.alert('No Mail App', 'No email app is set up on this device. Use Share instead.');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Follow-up Email</Text>
+            <Text style={styles.headerSubtitle} numberOfLines={1}>
+              {recording?.title ?? 'Recording not found'}
+            </Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="mail-outline" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      {!recording ? (
+        <View style={styles.centered}>
+          <MaterialIcons name="error-outline" size={48} color="#999" />
+          <Text style={styles.missingText}>This recording no longer exists.</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollableBody}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Tone */}
+          <View style={styles.toneRow}>
+            {EMAIL_TONES.map(item => (
+              <Pressable
+                key={item.key}
+                style={[styles.toneChip, tone === item.key && styles.selectedToneChip]}
+                onPress={() => applyTone(item.key)}
+              >
+                <Text style={[styles.toneText, tone === item.key && styles.selectedToneText]}>{item.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {/* Draft */}
+          <View style={styles.card}>
+            <Text style={styles.label}>To</Text>
+            <TextInput
+              style={styles.input}
+              value={to}
+              onChangeText={setTo}
+              onBlur={() => saveDraft()}
+              placeholder="name@company.com"
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="email-address"
+            />
+            <Text style={styles.label}>Subject</Text>
+            <TextInput
+              style={styles.input}
+              value={subject}
+              onChangeText={text => {
+                setSubject(text);
+                setIsEdited(true);
+              }}
+              onBlur={() => saveDraft()}
+              placeholder="Subject"
+              placeholderTextColor="#999"
+            />
+            <Text style={styles.label}>Message</Text>
+            <TextInput
+              style={[styles.input, styles.bodyInput]}
+              value={body}
+              onChangeText={text => {
+                setBody(text);
+                setIsEdited(true);
+              }}
+              onBlur={() => saveDraft()}
+              multiline
+              textAlignVertical="top"
+            />
+            <Text style={styles.helperText}>Replace the [bracketed] placeholders before sending.</Text>
+            {isGenericDraft && (
+              <Text style={styles.helperText}>
+                This call has no next steps to draw on, so the draft is generic. Add what was agreed before sending.
+              </Text>
+            )}
+          </View>
+
+          {/* Actions */}
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.actionButton, styles.shareButton]} onPress={handleShare}>
+              <MaterialIcons name="share" size={20} color="#fff" />
+              <Text style={styles.buttonText}>Share</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, styles.mailButton]} onPress={handleOpenMail}>
+              <MaterialIcons name="email" size={20} color="#fff" />
+              <Text style={styles.buttonText}>Open in Mail</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  missingText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 12,
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  toneRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  toneChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  selectedToneChip: {
+    backgroundColor: '#4a7eb7',
+    borderColor: '#4a7eb7',
+  },
+  toneText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4a7eb7',
+  },
+  selectedToneText: {
+    color: '#fff',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginBottom: 16,
+    color: '#000',
+    backgroundColor: '#fff',
+    fontSize: 16,
+  },
+  bodyInput: {
+    minHeight: 320,
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  helperText: {
+    fontSize: 13,
+    color: '#999',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    padding: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shareButton: {
+    backgroundColor: '#4a7eb7',
+  },
+  mailButton: {
+    backgroundColor: '#4caf50',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,696 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Collapsible } from '../../components/Collapsible';
+import { useLanguageSettings } from '../../hooks/useLanguageSettings';
+import { useRecordingPlayer } from '../../hooks/useRecordingPlayer';
+import { getRecordingMetrics } from '../../lib/conversationMetrics';
+import { getLanguageLabel } from '../../lib/languages';
+import { DEFAULT_PLAYBOOK_ID, getPlaybookName } from '../../lib/playbooks';
+import { getRecordingAnalysis } from '../../lib/salesCallAnalysis';
+import { getRecordingTrackerHits } from '../../lib/trackers';
+import { findSegmentIndexAt, formatTimestamp } from '../../lib/transcript';
+import { AnalysisProgressView } from '../components/AnalysisProgressView';
+import { AnalysisSections } from '../components/AnalysisSections';
+import { ConversationMetricsView } from '../components/ConversationMetricsView';
+import { LanguagePicker } from '../components/LanguagePicker';
+import { PlaybookPicker } from '../components/PlaybookPicker';
+import { TaskItem } from '../components/TaskItem';
+import { TrackerMentionsView } from '../components/TrackerMentionsView';
+import { TranscriptView } from '../components/TranscriptView';
+import { useAnalysisJob, useAnalysisProgress, useAnalysisQueue } from '../context/AnalysisQueueContext';
+import { useRecordings } from '../context/RecordingContext';
+import { useTasks } from '../context/TaskContext';
+import { useTrackers } from '../context/TrackerContext';
+
+export default function RecordingDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { isLoaded, getRecording, updateRecording, deleteRecording } = useRecordings();
+  const { enqueueAnalysis, cancelAnalysis, removeJob, isOnline } = useAnalysisQueue();
+  const { trackers } = useTrackers();
+  const { getRecordingTasks, addTask } = useTasks();
+  const languageSettings = useLanguageSettings();
+  const recording = isLoaded ? getRecording(id) : undefined;
+  const job = useAnalysisJob(recording?.id);
+  const analysisProgress = useAnalysisProgress(recording?.id);
+  const { isPlaying, positionMillis, durationMillis, togglePlayback, seekTo } = useRecordingPlayer(recording?.uri);
+  const [notes, setNotes] = useState('');
+  const [contact, setContact] = useState('');
+  const [newTaskTitle, setNewTaskTitle] = useState('');
+  // Inputs are filled once per recording so saves don't overwrite what's being typed
+  const loadedRecordingIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!recording || loadedRecordingIdRef.current === recording.id) return;
+    loadedRecordingIdRef.current = recording.id;
+    setNotes(recording.notes ?? '');
+    setContact(recording.contact ?? '');
+  }, [recording]);
+
+  if (!isLoaded) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#4a7eb7" />
+      </View>
+    );
+  }
+
+  if (!recording) {
+    return (
+      <View style={styles.centered}>
+        <MaterialIcons name="error-outline" size={48} color="#999" />
+        <Text style={styles.missingText}>This recording could not be found.</Text>
+        <Pressable style={styles.primaryButton} onPress={() => router.replace('/(tabs)/history')}>
+          <Text style={styles.primaryButtonText}>Go to History</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  const structuredAnalysis = getRecordingAnalysis(recording);
+  const playbookId = recording.playbookId ?? DEFAULT_PLAYBOOK_ID;
+  const previousAnalyses = recording.previousAnalyses ?? [];
+  const metrics = getRecordingMetrics(recording);
+  const trackerHits = getRecordingTrackerHits(recording, trackers);
+  const recordingTasks = getRecordingTasks(recording.id);
+  const isAnalyzing = job?.status === 'pending' || job?.status === 'running';
+  const segments = recording.transcriptSegments;
+  const activeIndex = segments ? findSegmentIndexAt(segments, positionMillis / 1000) : -1;
+  const totalSeconds = durationMillis ? durationMillis / 1000 : recording.duration;
+  const progress = totalSeconds > 0 ? Math.min(1, positionMillis / 1000 / totalSeconds) : 0;
+
+  const getStatusText = () => {
+    if (job?.status === 'running') return 'AI is analyzing your recording...';
+    if (job?.status === 'pending') {
+      if (!isOnline) return 'Offline. Analysis will start when you reconnect.';
+      return job.attempts > 0 ? 'Connection problem, retrying...' : 'Waiting to analyze...';
+    }
+    if (job?.status === 'failed') return job.lastError ?? 'Analysis failed.';
+    if (recording.analysisStatus === 'cancelled') return 'Analysis was cancelled. Resume it at any time.';
+    return 'This recording has not been analyzed yet.';
+  };
+
+  const getAnalyzeLabel = () => {
+    if (structuredAnalysis) {
+      // Offering a different playbook keeps the current result for comparison
+      return recording.analysisPlaybookId && playbookId !== recording.analysisPlaybookId
+        ? `Re-analyze as ${getPlaybookName(playbookId)}`
+        : 'Re-analyze';
+    }
+    return recording.analysisStatus === 'cancelled' ? 'Resume Analysis' : 'Analyze with AI';
+  };
+
+  const saveNotes = async () => {
+    if (notes === (recording.notes ?? '')) return;
+    await updateRecording(recording.id, { notes });
+  };
+
+  const saveContact = async () => {
+    const trimmed = contact.trim();
+    if (trimmed === (recording.contact ?? '')) return;
+    await updateRecording(recording.id, { contact: trimmed || undefined });
+  };
+
+  const handleAddTask = async () => {
+    const title = newTaskTitle.trim();
+    if (!title) return;
+    setNewTaskTitle('');
+    await addTask({ recordingId: recording.id, title });
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Recording',
+      'This recording and its analysis will be removed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await removeJob(recording.id);
+            await deleteRecording(recording.id);
+            router.back();
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle} numberOfLines={1}>{recording.title}</Text>
+            <Text style={styles.headerSubtitle}>
+              {new Date(recording.timestamp).toLocaleString()} · {formatTimestamp(recording.duration)}
+            </Text>
+          </View>
+        </View>
+      </View>
+
+      {/* Scrollable Body */}
+      <ScrollView
+        style={styles.scrollableBody}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Player */}
+        <View style={styles.card}>
+          <View style={styles.playerRow}>
+            <Pressable style={styles.playButton} onPress={togglePlayback}>
+              <MaterialIcons name={isPlaying ? 'pause' : 'play-arrow'} size={28} color="#fff" />
+            </Pressable>
+            <View style={styles.playerInfo}>
+              <View style={styles.progressTrack}>
+                <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+              </View>
+              <Text style={styles.playerTime}>
+                {formatTimestamp(positionMillis / 1000)} / {formatTimestamp(totalSeconds)}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        {/* Analysis */}
+        <View style={[styles.card, styles.analysisCard]}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="insights" size={22} color="#4caf50" />
+            <Text style={styles.sectionTitle}>AI Analysis</Text>
+            {recording.analyzedAt && (
+              <Text style={styles.sectionMeta}>
+                {getPlaybookName(recording.analysisPlaybookId)} · {new Date(recording.analyzedAt).toLocaleDateString()}
+              </Text>
+            )}
+          </View>
+
+          {analysisProgress ? (
+            <AnalysisProgressView progress={analysisProgress} />
+          ) : structuredAnalysis && !isAnalyzing ? (
+            <>
+              <AnalysisSections analysis={structuredAnalysis} />
+              {recording.detectedLanguage && (
+                <Text style={styles.languageNote}>
+                  Spoken in {getLanguageLabel(recording.detectedLanguage)}
+                  {recording.analysisLanguage && recording.analysisLanguage !== recording.detectedLanguage
+                    ? ` · analysis in ${getLanguageLabel(recording.analysisLanguage)}`
+                    : ''}
+                </Text>
+              )}
+            </>
+          ) : (
+            <View style={styles.statusContainer}>
+              {isAnalyzing && <ActivityIndicator color="#4a7eb7" style={styles.statusSpinner} />}
+              <Text style={[styles.statusText, job?.status === 'failed' && styles.statusFailed]}>
+                {getStatusText()}
+              </Text>
+            </View>
+          )}
+
+          {!isAnalyzing && (
+            <View style={styles.playbookContainer}>
+              <PlaybookPicker
+                value={playbookId}
+                customInstructions={recording.customPlaybookInstructions}
+                onChange={playbookId => updateRecording(recording.id, { playbookId })}
+                onCustomInstructionsChange={customPlaybookInstructions =>
+                  updateRecording(recording.id, { customPlaybookInstructions })
+                }
+              />
+            </View>
+          )}
+
+          {!isAnalyzing && (
+            <View style={styles.playbookContainer}>
+              <LanguagePicker
+                label="Call language"
+                value={recording.language}
+                defaultLanguage={languageSettings.defaultLanguage}
+                onChange={language => updateRecording(recording.id, { language })}
+              />
+            </View>
+          )}
+
+          {isAnalyzing ? (
+            <Pressable style={styles.cancelButton} onPress={() => cancelAnalysis(recording.id)}>
+              <MaterialIcons name="close" size={20} color="#f44336" />
+              <Text style={styles.cancelButtonText}>Cancel Analysis</Text>
+            </Pressable>
+          ) : (
+            <Pressable style={styles.primaryButton} onPress={() => enqueueAnalysis(recording.id)}>
+              <MaterialIcons name={structuredAnalysis ? 'refresh' : 'send'} size={20} color="#fff" />
+              <Text style={styles.primaryButtonText}>{getAnalyzeLabel()}</Text>
+            </Pressable>
+          )}
+        </View>
+
+        {/* Ask the Call */}
+        {recording.transcript && !isAnalyzing && (
+          <TouchableOpacity style={[styles.card, styles.actionCard]} onPress={() => router.push(`/chat/${recording.id}`)}>
+            <MaterialIcons name="forum" size={22} color="#4a7eb7" />
+            <View style={styles.actionInfo}>
+              <Text style={styles.actionTitle}>Ask the Call</Text>
+              <Text style={styles.actionSubtitle}>
+                {recording.chatHistory?.length
+                  ? `${recording.chatHistory.filter(message => message.role === 'user').length} questions asked`
+                  : 'Ask follow-up questions about this conversation'}
+              </Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#ccc" />
+          </TouchableOpacity>
+        )}
+
+        {/* Follow-up Email */}
+        {structuredAnalysis && !isAnalyzing && (
+          <TouchableOpacity
+            style={[styles.card, styles.actionCard]}
+            onPress={() => router.push(`/email/${recording.id}`)}
+          >
+            <MaterialIcons name="mail-outline" size={22} color="#4caf50" />
+            <View style={styles.actionInfo}>
+              <Text style={styles.actionTitle}>Draft Follow-up</Text>
+              <Text style={styles.actionSubtitle}>
+                {recording.followUpEmail ? 'Continue your recap email' : 'Write a recap email from this analysis'}
+              </Text>
+            </View>
+            <MaterialIcons name="chevron-right" size={24} color="#ccc" />
+          </TouchableOpacity>
+        )}
+
+        {/* Action Items */}
+        {(recordingTasks.length > 0 || structuredAnalysis) && !isAnalyzing && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="checklist" size={22} color="#4a7eb7" />
+              <Text style={styles.sectionTitle}>Action Items</Text>
+              <TouchableOpacity onPress={() => router.push('/(tabs)/tasks')}>
+                <Text style={styles.linkText}>All tasks</Text>
+              </TouchableOpacity>
+            </View>
+            {recordingTasks.map(task => (
+              <TaskItem key={task.id} task={task} />
+            ))}
+            <View style={styles.addTaskRow}>
+              <TextInput
+                style={styles.addTaskInput}
+                value={newTaskTitle}
+                onChangeText={setNewTaskTitle}
+                onSubmitEditing={handleAddTask}
+                placeholder="Add an action item"
+                placeholderTextColor="#999"
+                returnKeyType="done"
+              />
+              <TouchableOpacity onPress={handleAddTask} disabled={!newTaskTitle.trim()}>
+                <MaterialIcons name="add-circle" size={32} color={newTaskTitle.trim() ? '#4a7eb7' : '#ccc'} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Previous Results */}
+        {previousAnalyses.length > 0 && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="history" size={22} color="#4a7eb7" />
+              <Text style={styles.sectionTitle}>Previous Results</Text>
+            </View>
+            {previousAnalyses.map((previous, index) => {
+              const previousAnalysis = getRecordingAnalysis(previous);
+              const date = previous.analyzedAt ? ` · ${new Date(previous.analyzedAt).toLocaleDateString()}` : '';
+              const score = previousAnalysis?.overallScore != null ? ` · ${previousAnalysis.overallScore}/100` : '';
+              return (
+                <View key={`${previous.analyzedAt}-${index}`} style={styles.previousItem}>
+                  <Collapsible title={`${getPlaybookName(previous.playbookId)}${score}${date}`}>
+                    {previousAnalysis && <AnalysisSections analysis={previousAnalysis} />}
+                  </Collapsible>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Transcript */}
+        {recording.transcript && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="subject" size={22} color="#4a7eb7" />
+              <Text style={styles.sectionTitle}>Transcript</Text>
+              <TouchableOpacity onPress={() => router.push(`/transcript/${recording.id}`)}>
+                <Text style={styles.linkText}>Full screen</Text>
+              </TouchableOpacity>
+            </View>
+            <ScrollView style={styles.transcriptScrollArea} nestedScrollEnabled>
+              <TranscriptView
+                segments={segments}
+                transcript={recording.transcript}
+                activeIndex={activeIndex}
+                onSegmentPress={segment => seekTo(segment.start)}
+              />
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Conversation Metrics */}
+        {metrics && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="record-voice-over" size={22} color="#673ab7" />
+              <Text style={styles.sectionTitle}>Conversation Metrics</Text>
+            </View>
+            <ConversationMetricsView metrics={metrics} />
+          </View>
+        )}
+
+        {/* Tracked Mentions */}
+        {trackerHits.length > 0 && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="label" size={22} color="#ff9800" />
+              <Text style={styles.sectionTitle}>Tracked Mentions</Text>
+              <TouchableOpacity onPress={() => router.push('/trackers/report')}>
+                <Text style={styles.linkText}>All calls</Text>
+              </TouchableOpacity>
+            </View>
+            <TrackerMentionsView hits={trackerHits} onMentionPress={mention => seekTo(mention.start!)} />
+          </View>
+        )}
+
+        {/* Notes */}
+        <View style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="edit-note" size={22} color="#4a7eb7" />
+            <Text style={styles.sectionTitle}>Notes</Text>
+          </View>
+          <TextInput
+            style={styles.contactInput}
+            value={contact}
+            onChangeText={setContact}
+            onBlur={saveContact}
+            placeholder="Contact, e.g. Jane Doe, Acme"
+            placeholderTextColor="#999"
+          />
+          <TextInput
+            style={styles.notesInput}
+            value={notes}
+            onChangeText={setNotes}
+            onBlur={saveNotes}
+            placeholder="Add your own notes about this call"
+            placeholderTextColor="#999"
+            multiline
+            textAlignVertical="top"
+          />
+        </View>
+
+        {/* Actions */}
+        <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+          <MaterialIcons name="delete" size={22} color="#fff" />
+          <Text style={styles.deleteButtonText}>Delete Recording</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    padding: 20,
+  },
+  missingText: {
+    fontSize: 16,
+    color: '#666',
+    marginVertical: 16,
+    textAlign: 'center',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  analysisCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#4caf50',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginLeft: 8,
+  },
+  sectionMeta: {
+    fontSize: 13,
+    color: '#999',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4a7eb7',
+  },
+  // Player
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  playButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#2196f3',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playerInfo: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#E3F2FD',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: '#2196f3',
+  },
+  playerTime: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#666',
+    fontVariant: ['tabular-nums'],
+  },
+  // Analysis
+  statusContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  statusSpinner: {
+    marginRight: 12,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#666',
+  },
+  statusFailed: {
+    color: '#f44336',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    backgroundColor: '#673ab7',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderRadius: 50,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  playbookContainer: {
+    marginTop: 16,
+  },
+  languageNote: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 12,
+  },
+  actionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  actionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  actionSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  addTaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  addTaskInput: {
+    flex: 1,
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    color: '#000',
+    backgroundColor: '#fff',
+    fontSize: 15,
+  },
+  previousItem: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  cancelButton: {
+    flexDirection: 'row',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderRadius: 50,
+    borderWidth: 1,
+    borderColor: '#f44336',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+  cancelButtonText: {
+    color: '#f44336',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  transcriptScrollArea: {
+    maxHeight: 320,
+  },
+  contactInput: {
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+    fontSize: 16,
+    color: '#000',
+    backgroundColor: '#fff',
+  },
+  notesInput: {
+    minHeight: 100,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    padding: 12,
+    fontSize: 16,
+    color: '#000',
+    backgroundColor: '#fff',
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    backgroundColor: '#f44336',
+    padding: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  deleteButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+});
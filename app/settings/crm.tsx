@@ -0,0 +1,283 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { CRM_FIELDS, DEFAULT_CRM_FIELD_MAPPING, loadCrmFieldMapping, saveCrmFieldMapping } from '../../lib/crmExport';
+import { CrmFieldKey, CrmFieldMapping } from '../types/crmExport';
+
+export default function CrmSettingsScreen() {
+  const [mapping, setMapping] = useState<CrmFieldMapping | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadCrmFieldMapping().then(setMapping);
+  }, []);
+
+  const updateField = (key: CrmFieldKey, updates: Partial<CrmFieldMapping[CrmFieldKey]>) => {
+    setMapping(current => current && { ...current, [key]: { ...current[key], ...updates } });
+  };
+
+  const handleSave = async () => {
+    if (!mapping) return;
+
+    const columns = CRM_FIELDS.filter(field => mapping[field.key].enabled).map(field =>
+      (mapping[field.key].column.trim() || field.defaultColumn).toLowerCase()
+    );
+    if (columns.length === 0) {
+      Alert.alert('Error', 'Turn on at least one field to export');
+      return;
+    }
+    if (new Set(columns).size !== columns.length) {
+      Alert.alert('Error', 'Each exported field needs its own column name');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveCrmFieldMapping(mapping);
+      router.back();
+    } catch (error) {
+      console.error('Error saving CRM field mapping:', error);
+      Alert.alert('Error', 'Failed to save the field mapping');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    Alert.alert('Reset Mapping', 'Restore the default column names?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Reset', style: 'destructive', onPress: () => setMapping(DEFAULT_CRM_FIELD_MAPPING) },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>CRM Export</Text>
+            <Text style={styles.headerSubtitle}>Match exported columns to your CRM import</Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="table-chart" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      {!mapping ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#4a7eb7" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollableBody}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Field Mapping</Text>
+              <TouchableOpacity onPress={handleReset}>
+                <Text style={styles.linkText}>Reset</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.helperText}>
+              Column names are used as CSV headers and JSON property names. Turn off fields your CRM does not
+              import.
+            </Text>
+            {CRM_FIELDS.map(field => (
+              <View key={field.key} style={styles.fieldRow}>
+                <View style={styles.fieldInfo}>
+                  <Text style={[styles.fieldLabel, !mapping[field.key].enabled && styles.disabledText]}>
+                    {field.label}
+                  </Text>
+                  <TextInput
+                    style={[styles.input, !mapping[field.key].enabled && styles.disabledInput]}
+                    value={mapping[field.key].column}
+                    onChangeText={column => updateField(field.key, { column })}
+                    placeholder={field.defaultColumn}
+                    placeholderTextColor="#999"
+                    autoCorrect={false}
+                    editable={mapping[field.key].enabled}
+                  />
+                </View>
+                <Switch
+                  value={mapping[field.key].enabled}
+                  onValueChange={enabled => updateField(field.key, { enabled })}
+                  trackColor={{ false: '#E5E5E7', true: '#4a7eb7' }}
+                  thumbColor={mapping[field.key].enabled ? '#fff' : '#f4f3f4'}
+                />
+              </View>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, isSaving && styles.disabledButton]}
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            <MaterialIcons name="save" size={20} color="#fff" />
+            <Text style={styles.buttonText}>Save Mapping</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4a7eb7',
+  },
+  helperText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  fieldInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  disabledText: {
+    color: '#999',
+  },
+  input: {
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    color: '#000',
+    backgroundColor: '#fff',
+    fontSize: 15,
+  },
+  disabledInput: {
+    color: '#999',
+    backgroundColor: '#f8f9fa',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    backgroundColor: '#4caf50',
+    padding: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
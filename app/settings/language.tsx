@@ -0,0 +1,160 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Alert, ScrollView, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { useLanguageSettings } from '../../hooks/useLanguageSettings';
+import { LanguageSettings, getDeviceLanguage, getLanguageLabel, setLanguageSettings } from '../../lib/languages';
+import { LanguagePicker } from '../components/LanguagePicker';
+
+export default function LanguageSettingsScreen() {
+  const settings = useLanguageSettings();
+  const deviceLanguage = getLanguageLabel(getDeviceLanguage());
+
+  const updateSettings = async (updates: Partial<LanguageSettings>) => {
+    try {
+      await setLanguageSettings(updates);
+    } catch (error) {
+      console.error('Error saving language settings:', error);
+      Alert.alert('Error', 'Failed to save language settings');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Language</Text>
+            <Text style={styles.headerSubtitle}>What your calls are in and how results read</Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="translate" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollableBody}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Default Language */}
+        <View style={styles.card}>
+          <LanguagePicker
+            label="Default call language"
+            value={settings.defaultLanguage}
+            onChange={defaultLanguage => defaultLanguage && updateSettings({ defaultLanguage })}
+          />
+          <Text style={styles.helperText}>
+            Sent with every analysis unless a recording picks its own language. Auto-detect lets the server
+            work it out, which is slower and less reliable on short calls.
+          </Text>
+        </View>
+
+        {/* Translation */}
+        <View style={styles.card}>
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Translate analysis to {deviceLanguage}</Text>
+              <Text style={styles.helperText}>
+                Summaries, objections and next steps come back in your device language whatever language the call
+                was in. The transcript stays in the original language.
+              </Text>
+            </View>
+            <Switch
+              value={settings.translateAnalysis}
+              onValueChange={translateAnalysis => updateSettings({ translateAnalysis })}
+              trackColor={{ false: '#E5E5E7', true: '#4a7eb7' }}
+              thumbColor={settings.translateAnalysis ? '#fff' : '#f4f3f4'}
+            />
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  helperText: {
+    fontSize: 13,
+    color: '#999',
+    lineHeight: 18,
+    marginTop: 8,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  settingInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+});
@@ -0,0 +1,376 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  MAX_CRITERION_WEIGHT,
+  MEDDICC_TEMPLATE,
+  MIN_CRITERION_WEIGHT,
+  createCriterion,
+} from '../../lib/rubric';
+import { useRubric } from '../context/RubricContext';
+import { RubricCriterion } from '../types/rubric';
+
+export default function RubricSettingsScreen() {
+  const { rubric, isLoaded, saveRubric } = useRubric();
+  const [criteria, setCriteria] = useState<RubricCriterion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setCriteria(rubric.criteria);
+  }, [rubric]);
+
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+
+  const updateCriterion = (id: string, updates: Partial<RubricCriterion>) => {
+    setCriteria(current =>
+      current.map(criterion => (criterion.id === id ? { ...criterion, ...updates } : criterion))
+    );
+  };
+
+  const changeWeight = (criterion: RubricCriterion, delta: number) => {
+    const weight = Math.min(MAX_CRITERION_WEIGHT, Math.max(MIN_CRITERION_WEIGHT, criterion.weight + delta));
+    updateCriterion(criterion.id, { weight });
+  };
+
+  const removeCriterion = (id: string) => {
+    setCriteria(current => current.filter(criterion => criterion.id !== id));
+  };
+
+  const handleLoadTemplate = () => {
+    const applyTemplate = () => setCriteria(MEDDICC_TEMPLATE.map(values => createCriterion(values)));
+    if (criteria.length === 0) {
+      applyTemplate();
+      return;
+    }
+    Alert.alert('Replace Rubric', 'Replace the current criteria with the MEDDICC template?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Replace', style: 'destructive', onPress: applyTemplate },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (isSaving) return;
+
+    const cleaned = criteria.map(criterion => ({
+      ...criterion,
+      name: criterion.name.trim(),
+      description: criterion.description.trim(),
+    }));
+    if (cleaned.some(criterion => !criterion.name)) {
+      Alert.alert('Error', 'Every criterion needs a name');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const { error } = await saveRubric(cleaned);
+      if (error) {
+        Alert.alert('Saved on This Device', 'The rubric could not be synced to your account. It will sync the next time the app opens while you are signed in.');
+      } else {
+        router.back();
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Coaching Rubric</Text>
+            <Text style={styles.headerSubtitle}>Criteria every call is scored against</Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="fact-check" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      {!isLoaded ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#4a7eb7" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollableBody}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {criteria.length === 0 && (
+            <View style={styles.card}>
+              <Text style={styles.helperText}>
+                No rubric yet. Calls get the standard analysis only. Add criteria to get a per-criterion
+                scorecard and a weighted score for every analyzed call.
+              </Text>
+            </View>
+          )}
+
+          {criteria.map((criterion, index) => (
+            <View key={criterion.id} style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.criterionNumber}>{index + 1}</Text>
+                <TextInput
+                  style={[styles.input, styles.nameInput]}
+                  value={criterion.name}
+                  onChangeText={name => updateCriterion(criterion.id, { name })}
+                  placeholder="Criterion name"
+                  placeholderTextColor="#999"
+                />
+                <TouchableOpacity style={styles.removeButton} onPress={() => removeCriterion(criterion.id)}>
+                  <MaterialIcons name="delete" size={22} color="#f44336" />
+                </TouchableOpacity>
+              </View>
+
+              <TextInput
+                style={[styles.input, styles.descriptionInput]}
+                value={criterion.description}
+                onChangeText={description => updateCriterion(criterion.id, { description })}
+                placeholder="What does a strong call look like for this criterion?"
+                placeholderTextColor="#999"
+                multiline
+                textAlignVertical="top"
+              />
+
+              <View style={styles.weightRow}>
+                <Text style={styles.weightLabel}>Weight</Text>
+                <TouchableOpacity
+                  style={[styles.stepButton, criterion.weight <= MIN_CRITERION_WEIGHT && styles.disabledButton]}
+                  onPress={() => changeWeight(criterion, -1)}
+                  disabled={criterion.weight <= MIN_CRITERION_WEIGHT}
+                >
+                  <MaterialIcons name="remove" size={20} color="#4a7eb7" />
+                </TouchableOpacity>
+                <Text style={styles.weightValue}>{criterion.weight}</Text>
+                <TouchableOpacity
+                  style={[styles.stepButton, criterion.weight >= MAX_CRITERION_WEIGHT && styles.disabledButton]}
+                  onPress={() => changeWeight(criterion, 1)}
+                  disabled={criterion.weight >= MAX_CRITERION_WEIGHT}
+                >
+                  <MaterialIcons name="add" size={20} color="#4a7eb7" />
+                </TouchableOpacity>
+                <Text style={styles.weightShare}>
+                  {totalWeight > 0 ? Math.round((criterion.weight / totalWeight) * 100) : 0}% of score
+                </Text>
+              </View>
+            </View>
+          ))}
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.addButton]}
+              onPress={() => setCriteria(current => [...current, createCriterion()])}
+            >
+              <MaterialIcons name="add" size={20} color="#fff" />
+              <Text style={styles.buttonText}>Add Criterion</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, styles.templateButton]} onPress={handleLoadTemplate}>
+              <MaterialIcons name="auto-awesome" size={20} color="#fff" />
+              <Text style={styles.buttonText}>MEDDICC</Text>
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.actionButton, styles.saveButton, isSaving && styles.disabledButton]}
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <>
+                <MaterialIcons name="save" size={20} color="#fff" />
+                <Text style={styles.buttonText}>Save Rubric</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  criterionNumber: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#4a7eb7',
+    width: 24,
+  },
+  helperText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    color: '#000',
+    backgroundColor: '#fff',
+    fontSize: 16,
+  },
+  nameInput: {
+    flex: 1,
+    height: 44,
+  },
+  descriptionInput: {
+    minHeight: 72,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  removeButton: {
+    marginLeft: 12,
+  },
+  weightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  weightLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginRight: 12,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weightValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    width: 32,
+    textAlign: 'center',
+  },
+  weightShare: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 13,
+    color: '#999',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    padding: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  addButton: {
+    backgroundColor: '#4a7eb7',
+  },
+  templateButton: {
+    backgroundColor: '#673ab7',
+  },
+  saveButton: {
+    backgroundColor: '#4caf50',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
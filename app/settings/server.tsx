@@ -0,0 +1,504 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useAnalysisBackend } from '../../hooks/useAnalysisBackend';
+import {
+  AnalysisErrorCode,
+  HealthCheckResult,
+  getAnalysisErrorMessage,
+  getConfiguredServerUrl,
+  getServerUrlOverride,
+  normalizeServerUrl,
+  setServerUrlOverride,
+} from '../../lib/analysisClient';
+import {
+  AnalysisBackendSettings,
+  canUseMockBackend,
+  getAnalysisProvider,
+  setAnalysisBackendSettings,
+} from '../../lib/analysisProvider';
+
+const MOCK_LATENCY_OPTIONS = [
+  { value: 0, label: 'None' },
+  { value: 1000, label: '1 s' },
+  { value: 5000, label: '5 s' },
+  { value: 20000, label: '20 s' },
+];
+
+const MOCK_FAILURE_OPTIONS = [
+  { value: 0, label: 'Never' },
+  { value: 1, label: 'Always' },
+  { value: 2, label: 'Every 2nd' },
+  { value: 3, label: 'Every 3rd' },
+];
+
+const MOCK_FAILURE_CODES: { value: AnalysisErrorCode; label: string }[] = [
+  { value: 'network', label: 'Network' },
+  { value: 'timeout', label: 'Timeout' },
+  { value: 'server', label: 'Server 500' },
+  { value: 'unauthenticated', label: 'Signed out' },
+  { value: 'invalid_response', label: 'Bad response' },
+];
+
+export default function ServerSettingsScreen() {
+  const backend = useAnalysisBackend();
+  const configuredUrl = getConfiguredServerUrl();
+  const [override, setOverride] = useState<string | null>(null);
+  const [urlInput, setUrlInput] = useState('');
+  const [isTesting, setIsTesting] = useState(false);
+  const [healthResult, setHealthResult] = useState<HealthCheckResult | null>(null);
+  const [healthError, setHealthError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getServerUrlOverride().then((savedUrl) => {
+      setOverride(savedUrl);
+      setUrlInput(savedUrl ?? '');
+    });
+  }, []);
+
+  const activeUrl = override || configuredUrl;
+
+  const updateBackend = async (updates: Partial<AnalysisBackendSettings>) => {
+    try {
+      await setAnalysisBackendSettings(updates);
+      setHealthResult(null);
+      setHealthError(null);
+    } catch (error) {
+      console.error('Error saving analysis backend settings:', error);
+      Alert.alert('Error', 'Failed to save backend settings');
+    }
+  };
+
+  const renderOptions = <T,>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <Pressable
+          key={option.label}
+          style={[styles.chip, option.value === selected && styles.selectedChip]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={[styles.chipText, option.value === selected && styles.selectedChipText]}>
+            {option.label}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  const handleSave = async () => {
+    if (!urlInput.trim()) {
+      Alert.alert('Error', 'Server URL cannot be empty');
+      return;
+    }
+    try {
+      await setServerUrlOverride(urlInput);
+      const savedUrl = normalizeServerUrl(urlInput);
+      setOverride(savedUrl);
+      setUrlInput(savedUrl);
+      setHealthResult(null);
+      setHealthError(null);
+    } catch (error) {
+      console.error('Error saving server URL:', error);
+      Alert.alert('Error', 'Failed to save server URL');
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await setServerUrlOverride(null);
+      setOverride(null);
+      setUrlInput('');
+      setHealthResult(null);
+      setHealthError(null);
+    } catch (error) {
+      console.error('Error resetting server URL:', error);
+      Alert.alert('Error', 'Failed to reset server URL');
+    }
+  };
+
+  const handleTestConnection = async () => {
+    if (isTesting) return;
+
+    try {
+      setIsTesting(true);
+      setHealthResult(null);
+      setHealthError(null);
+      // Test what is typed so a URL can be checked before saving it
+      const result = await getAnalysisProvider(backend).checkHealth(urlInput.trim() || undefined);
+      setHealthResult(result);
+    } catch (error) {
+      console.error('Health check failed:', error);
+      setHealthError(getAnalysisErrorMessage(error));
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Server Connection</Text>
+            <Text style={styles.headerSubtitle}>Choose where recordings are analyzed</Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="dns" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      {/* Scrollable Body */}
+      <ScrollView
+        style={styles.scrollableBody}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Developer Backend */}
+        {canUseMockBackend && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <MaterialIcons name="developer-mode" size={20} color="#673ab7" />
+              <Text style={styles.sectionTitle}>Developer Backend</Text>
+            </View>
+            {renderOptions(
+              [
+                { value: 'http' as const, label: 'Live server' },
+                { value: 'mock' as const, label: 'Mock (offline)' },
+              ],
+              backend.provider,
+              provider => updateBackend({ provider })
+            )}
+            {backend.provider === 'mock' ? (
+              <>
+                <Text style={styles.optionLabel}>Latency</Text>
+                {renderOptions(MOCK_LATENCY_OPTIONS, backend.mockLatencyMs, mockLatencyMs =>
+                  updateBackend({ mockLatencyMs })
+                )}
+                <Text style={styles.optionLabel}>Fail analyses</Text>
+                {renderOptions(MOCK_FAILURE_OPTIONS, backend.mockFailEvery, mockFailEvery =>
+                  updateBackend({ mockFailEvery })
+                )}
+                {backend.mockFailEvery > 0 && (
+                  <>
+                    <Text style={styles.optionLabel}>Failure type</Text>
+                    {renderOptions(MOCK_FAILURE_CODES, backend.mockFailureCode, mockFailureCode =>
+                      updateBackend({ mockFailureCode })
+                    )}
+                  </>
+                )}
+                <Text style={styles.helperText}>
+                  Recordings get canned transcripts and analyses on the device. The server below is not used.
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.helperText}>Only shown in development builds.</Text>
+            )}
+          </View>
+        )}
+
+        {/* Active Endpoint */}
+        <View style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="cloud" size={20} color="#4a7eb7" />
+            <Text style={styles.sectionTitle}>Active Endpoint</Text>
+          </View>
+          <Text style={styles.activeUrl}>{activeUrl ?? 'Not configured'}</Text>
+          <Text style={styles.helperText}>
+            {override ? 'Custom server set on this device' : 'Default from the app build'}
+          </Text>
+          {configuredUrl && override && (
+            <Text style={styles.helperText}>Build default: {configuredUrl}</Text>
+          )}
+        </View>
+
+        {/* Custom Server */}
+        <View style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="edit" size={20} color="#4a7eb7" />
+            <Text style={styles.sectionTitle}>Custom Server</Text>
+          </View>
+          <TextInput
+            style={styles.input}
+            value={urlInput}
+            onChangeText={setUrlInput}
+            placeholder={configuredUrl ?? 'http://192.168.1.10:8000'}
+            placeholderTextColor="#999"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.actionButton, styles.saveButton]} onPress={handleSave}>
+              <MaterialIcons name="save" size={20} color="#fff" />
+              <Text style={styles.buttonText}>Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.resetButton, !override && styles.disabledButton]}
+              onPress={handleReset}
+              disabled={!override}
+            >
+              <MaterialIcons name="restore" size={20} color="#fff" />
+              <Text style={styles.buttonText}>Use Default</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Connection Test */}
+        <View style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="network-check" size={20} color="#4a7eb7" />
+            <Text style={styles.sectionTitle}>Diagnostics</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.testButton, isTesting && styles.disabledButton]}
+            onPress={handleTestConnection}
+            disabled={isTesting}
+          >
+            {isTesting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <>
+                <MaterialIcons name="wifi-tethering" size={20} color="#fff" />
+                <Text style={styles.buttonText}>Test Connection</Text>
+              </>
+            )}
+          </TouchableOpacity>
+
+          {healthResult && (
+            <View style={[styles.resultBox, styles.resultSuccess]}>
+              <View style={styles.resultHeader}>
+                <MaterialIcons name="check-circle" size={20} color="#4caf50" />
+                <Text style={[styles.resultTitle, { color: '#2e7d32' }]}>Connected</Text>
+              </View>
+              <Text style={styles.resultText}>Server: {healthResult.serverUrl}</Text>
+              <Text style={styles.resultText}>Latency: {healthResult.latencyMs} ms</Text>
+              <Text style={styles.resultText}>Version: {healthResult.version ?? 'unknown'}</Text>
+              {healthResult.status && (
+                <Text style={styles.resultText}>Status: {healthResult.status}</Text>
+              )}
+            </View>
+          )}
+
+          {healthError && (
+            <View style={[styles.resultBox, styles.resultFailure]}>
+              <View style={styles.resultHeader}>
+                <MaterialIcons name="error" size={20} color="#f44336" />
+                <Text style={[styles.resultTitle, { color: '#c62828' }]}>Connection Failed</Text>
+              </View>
+              <Text style={styles.resultText}>{healthError}</Text>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginLeft: 8,
+  },
+  activeUrl: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  helperText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  optionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+    backgroundColor: '#fff',
+  },
+  selectedChip: {
+    backgroundColor: '#673ab7',
+    borderColor: '#673ab7',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4a7eb7',
+  },
+  selectedChipText: {
+    color: '#fff',
+  },
+  input: {
+    width: '100%',
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+    color: '#000',
+    backgroundColor: '#fff',
+    fontSize: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    padding: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButton: {
+    backgroundColor: '#4a7eb7',
+  },
+  resetButton: {
+    backgroundColor: '#9e9e9e',
+  },
+  testButton: {
+    backgroundColor: '#673ab7',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  resultBox: {
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+  },
+  resultSuccess: {
+    backgroundColor: '#E8F5E9',
+    borderLeftColor: '#4caf50',
+  },
+  resultFailure: {
+    backgroundColor: '#FFEBEE',
+    borderLeftColor: '#f44336',
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  resultText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+});
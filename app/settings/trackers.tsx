@@ -0,0 +1,376 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { TRACKER_CATEGORIES, createTrackerId, getTrackerCategory } from '../../lib/trackers';
+import { useTrackers } from '../context/TrackerContext';
+import { Tracker, TrackerCategory } from '../types/tracker';
+
+export default function TrackerSettingsScreen() {
+  const { trackers, isLoaded, saveTracker, deleteTracker } = useTrackers();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [synonyms, setSynonyms] = useState('');
+  const [category, setCategory] = useState<TrackerCategory>('competitor');
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setSynonyms('');
+    setCategory('competitor');
+  };
+
+  const startEditing = (tracker: Tracker) => {
+    setEditingId(tracker.id);
+    setName(tracker.name);
+    setSynonyms(tracker.synonyms.join(', '));
+    setCategory(tracker.category);
+  };
+
+  const handleSave = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      Alert.alert('Error', 'Please enter a keyword to track');
+      return;
+    }
+
+    await saveTracker({
+      id: editingId ?? createTrackerId(),
+      name: trimmedName,
+      synonyms: synonyms
+        .split(',')
+        .map(synonym => synonym.trim())
+        .filter(Boolean),
+      category,
+    });
+    resetForm();
+  };
+
+  const handleDelete = (tracker: Tracker) => {
+    Alert.alert('Delete Tracker', `Stop tracking "${tracker.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          if (editingId === tracker.id) resetForm();
+          await deleteTracker(tracker.id);
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Keyword Trackers</Text>
+            <Text style={styles.headerSubtitle}>Competitors and topics to spot in every call</Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="label" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      {!isLoaded ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#4a7eb7" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollableBody}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Tracker Form */}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{editingId ? 'Edit Tracker' : 'New Tracker'}</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Keyword, e.g. Acme"
+              placeholderTextColor="#999"
+            />
+            <TextInput
+              style={styles.input}
+              value={synonyms}
+              onChangeText={setSynonyms}
+              placeholder="Synonyms, comma separated"
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+            />
+            <View style={styles.chipRow}>
+              {TRACKER_CATEGORIES.map(item => (
+                <Pressable
+                  key={item.key}
+                  style={[
+                    styles.chip,
+                    category === item.key && { backgroundColor: item.color, borderColor: item.color },
+                  ]}
+                  onPress={() => setCategory(item.key)}
+                >
+                  <Text style={[styles.chipText, category === item.key && styles.selectedChipText]}>
+                    {item.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <View style={styles.buttonRow}>
+              {editingId && (
+                <TouchableOpacity style={[styles.actionButton, styles.cancelButton]} onPress={resetForm}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={[styles.actionButton, styles.saveButton]} onPress={handleSave}>
+                <MaterialIcons name={editingId ? 'save' : 'add'} size={20} color="#fff" />
+                <Text style={styles.buttonText}>{editingId ? 'Save Tracker' : 'Add Tracker'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Tracker List */}
+          {trackers.length === 0 ? (
+            <View style={styles.card}>
+              <Text style={styles.helperText}>
+                No trackers yet. Add competitor names, pricing terms or product features to see which calls
+                mention them and where.
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.card}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Tracking {trackers.length}</Text>
+                <TouchableOpacity onPress={() => router.push('/trackers/report')}>
+                  <Text style={styles.linkText}>View report</Text>
+                </TouchableOpacity>
+              </View>
+              {trackers.map(tracker => {
+                const trackerCategory = getTrackerCategory(tracker.category);
+                return (
+                  <View key={tracker.id} style={styles.trackerRow}>
+                    <View style={[styles.categoryDot, { backgroundColor: trackerCategory.color }]} />
+                    <TouchableOpacity style={styles.trackerInfo} onPress={() => startEditing(tracker)}>
+                      <Text style={styles.trackerName}>{tracker.name}</Text>
+                      <Text style={styles.trackerDetail} numberOfLines={1}>
+                        {trackerCategory.label}
+                        {tracker.synonyms.length > 0 ? ` · ${tracker.synonyms.join(', ')}` : ''}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.removeButton} onPress={() => handleDelete(tracker)}>
+                      <MaterialIcons name="delete" size={22} color="#f44336" />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4a7eb7',
+  },
+  helperText: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  input: {
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    marginBottom: 12,
+    color: '#000',
+    backgroundColor: '#fff',
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+    backgroundColor: '#fff',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4a7eb7',
+  },
+  selectedChipText: {
+    color: '#fff',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    padding: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButton: {
+    backgroundColor: '#4caf50',
+  },
+  cancelButton: {
+    borderWidth: 1,
+    borderColor: '#c9d8e9',
+  },
+  cancelButtonText: {
+    color: '#4a7eb7',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  trackerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  categoryDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 12,
+  },
+  trackerInfo: {
+    flex: 1,
+  },
+  trackerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  trackerDetail: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  removeButton: {
+    marginLeft: 12,
+  },
+});
@@ -0,0 +1,233 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { buildTrackerReport, getTrackerCategory } from '../../lib/trackers';
+import { useRecordings } from '../context/RecordingContext';
+import { useTrackers } from '../context/TrackerContext';
+
+export default function TrackerReportScreen() {
+  const { recordings } = useRecordings();
+  const { trackers } = useTrackers();
+
+  const transcribed = recordings.filter(recording => recording.transcript);
+  const report = buildTrackerReport(transcribed, trackers);
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Mention Report</Text>
+            <Text style={styles.headerSubtitle}>Across {transcribed.length} transcribed calls</Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="label" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollableBody}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {report.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MaterialIcons name="label-outline" size={64} color="#4a7eb7" />
+            <Text style={styles.emptyTitle}>No Trackers Yet</Text>
+            <Text style={styles.emptyDescription}>
+              Add the competitors and topics you care about to see which calls mention them.
+            </Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => router.push('/settings/trackers')}>
+              <Text style={styles.primaryButtonText}>Set Up Trackers</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          report.map(entry => {
+            const category = getTrackerCategory(entry.tracker.category);
+            return (
+              <View key={entry.tracker.id} style={styles.card}>
+                <View style={styles.sectionHeader}>
+                  <View style={[styles.categoryDot, { backgroundColor: category.color }]} />
+                  <Text style={styles.sectionTitle}>{entry.tracker.name}</Text>
+                  <Text style={styles.sectionMeta}>
+                    {entry.totalMentions} in {entry.recordings.length}{' '}
+                    {entry.recordings.length === 1 ? 'call' : 'calls'}
+                  </Text>
+                </View>
+                {entry.recordings.length === 0 ? (
+                  <Text style={styles.emptyText}>Not mentioned in any call yet.</Text>
+                ) : (
+                  entry.recordings.map(({ recording, count }) => (
+                    <TouchableOpacity
+                      key={recording.id}
+                      style={styles.callRow}
+                      onPress={() => router.push(`/recording/${recording.id}`)}
+                    >
+                      <View style={styles.callInfo}>
+                        <Text style={styles.callTitle} numberOfLines={1}>
+                          {recording.title}
+                        </Text>
+                        <Text style={styles.callDate}>{new Date(recording.timestamp).toLocaleDateString()}</Text>
+                      </View>
+                      <Text style={styles.callCount}>{count}×</Text>
+                      <MaterialIcons name="chevron-right" size={24} color="#ccc" />
+                    </TouchableOpacity>
+                  ))
+                )}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  categoryDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  sectionMeta: {
+    fontSize: 13,
+    color: '#999',
+  },
+  callRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  callInfo: {
+    flex: 1,
+  },
+  callTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  callDate: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  callCount: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#4a7eb7',
+    marginHorizontal: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyDescription: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  primaryButton: {
+    backgroundColor: '#4a7eb7',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
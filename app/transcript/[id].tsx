@@ -0,0 +1,172 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Pressable, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useRecordingPlayer } from '../../hooks/useRecordingPlayer';
+import { findSegmentIndexAt, formatTimestamp } from '../../lib/transcript';
+import { TranscriptView } from '../components/TranscriptView';
+import { useRecordings } from '../context/RecordingContext';
+
+export default function TranscriptScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { recordings } = useRecordings();
+  const recording = recordings.find(item => item.id === id);
+  const { isPlaying, positionMillis, durationMillis, togglePlayback, seekTo } = useRecordingPlayer(recording?.uri);
+
+  const segments = recording?.transcriptSegments;
+  const activeIndex = segments ? findSegmentIndexAt(segments, positionMillis / 1000) : -1;
+  const totalSeconds = durationMillis ? durationMillis / 1000 : recording?.duration ?? 0;
+
+  return (
+    <View style={styles.container}>
+      {/* Fixed Header */}
+      <View style={styles.fixedHeader}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <MaterialIcons name="arrow-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <View style={styles.headerTextContainer}>
+            <Text style={styles.headerTitle}>Transcript</Text>
+            <Text style={styles.headerSubtitle} numberOfLines={1}>
+              {recording?.title ?? 'Recording not found'}
+            </Text>
+          </View>
+          <View style={styles.headerIcon}>
+            <MaterialIcons name="subject" size={32} color="#fff" />
+          </View>
+        </View>
+      </View>
+
+      {/* Player */}
+      {recording && (
+        <View style={styles.playerBar}>
+          <Pressable style={styles.playButton} onPress={togglePlayback}>
+            <MaterialIcons name={isPlaying ? 'pause' : 'play-arrow'} size={28} color="#fff" />
+          </Pressable>
+          <Text style={styles.playerTime}>
+            {formatTimestamp(positionMillis / 1000)} / {formatTimestamp(totalSeconds)}
+          </Text>
+          {segments && <Text style={styles.playerHint}>Tap a line to jump to it</Text>}
+        </View>
+      )}
+
+      {/* Scrollable Body */}
+      <ScrollView
+        style={styles.scrollableBody}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.transcriptCard}>
+          {recording ? (
+            <TranscriptView
+              segments={segments}
+              transcript={recording.transcript}
+              activeIndex={activeIndex}
+              onSegmentPress={segment => seekTo(segment.start)}
+            />
+          ) : (
+            <Text style={styles.missingText}>This recording no longer exists.</Text>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  // Fixed Header Styles
+  fixedHeader: {
+    backgroundColor: '#4a7eb7',
+    paddingTop: 60,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 5,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  headerTextContainer: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#E3F2FD',
+    lineHeight: 18,
+  },
+  headerIcon: {
+    marginLeft: 16,
+  },
+  // Player Styles
+  playerBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  playButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#2196f3',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playerTime: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 12,
+    fontVariant: ['tabular-nums'],
+  },
+  playerHint: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 12,
+    color: '#999',
+  },
+  // Scrollable Body Styles
+  scrollableBody: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  transcriptCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  missingText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+});
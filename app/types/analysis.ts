@@ -0,0 +1,31 @@
+export const SALES_CALL_ANALYSIS_VERSION = 1;
+
+export type CallSentiment = 'positive' | 'neutral' | 'negative' | 'mixed';
+
+// One row of a coaching rubric scorecard
+export interface CriterionScore {
+  // Matches RubricCriterion.id when the server echoes it back
+  criterionId?: string;
+  name: string;
+  // 0-100
+  score: number;
+  // Rubric weight at analysis time, so later rubric edits don't rescore old calls
+  weight: number;
+  rationale?: string;
+}
+
+export interface SalesCallAnalysis {
+  version: typeof SALES_CALL_ANALYSIS_VERSION;
+  // 0-100, null when the server did not score the call
+  overallScore: number | null;
+  sentiment: CallSentiment | null;
+  summary: string;
+  objections: string[];
+  questionsAsked: string[];
+  nextSteps: string[];
+  risks: string[];
+  strengths: string[];
+  improvementTips: string[];
+  // Present when the call was scored against a custom rubric
+  rubricScores?: CriterionScore[];
+}
@@ -0,0 +1,28 @@
+import { AnalysisErrorCode, AnalysisProgress } from '../../lib/analysisClient';
+
+export type AnalysisJobStatus = 'pending' | 'running' | 'failed' | 'cancelled' | 'done';
+
+export interface AnalysisJob {
+  recordingId: string;
+  status: AnalysisJobStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  lastErrorCode?: AnalysisErrorCode;
+  // Chunked upload session to resume on the next attempt
+  uploadId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AnalysisQueueContextType {
+  jobs: AnalysisJob[];
+  isOnline: boolean;
+  // Live progress of running jobs, keyed by recording id; not persisted
+  progress: Record<string, AnalysisProgress>;
+  enqueueAnalysis: (recordingId: string) => Promise<void>;
+  // Stops a queued or running job; it stays cancelled until enqueued again
+  cancelAnalysis: (recordingId: string) => Promise<void>;
+  removeJob: (recordingId: string) => Promise<void>;
+  getJob: (recordingId: string) => AnalysisJob | undefined;
+}
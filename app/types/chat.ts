@@ -0,0 +1,9 @@
+export type ChatRole = 'user' | 'assistant';
+
+// One turn of an ask-the-call conversation
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  content: string;
+  createdAt: number;
+}
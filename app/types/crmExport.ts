@@ -0,0 +1,11 @@
+export type CrmExportFormat = 'csv' | 'json';
+
+export type CrmFieldKey = 'subject' | 'date' | 'duration' | 'contact' | 'summary' | 'nextSteps' | 'score';
+
+export interface CrmFieldSetting {
+  // Column header in the CSV, property name in the JSON
+  column: string;
+  enabled: boolean;
+}
+
+export type CrmFieldMapping = Record<CrmFieldKey, CrmFieldSetting>;
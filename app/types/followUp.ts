@@ -0,0 +1,10 @@
+export type EmailTone = 'friendly' | 'formal' | 'concise';
+
+// A recap email drafted from a call, kept so edits survive leaving the screen
+export interface FollowUpEmail {
+  tone: EmailTone;
+  to: string;
+  subject: string;
+  body: string;
+  updatedAt: number;
+}
@@ -0,0 +1,23 @@
+import { SalesCallAnalysis } from './analysis';
+
+export type PlaybookId = 'discovery' | 'demo' | 'negotiation' | 'renewal' | 'cold_call' | 'custom';
+
+export interface Playbook {
+  id: PlaybookId;
+  name: string;
+  description: string;
+}
+
+// Sent with an analysis request so the call is judged against its purpose
+export interface PlaybookRequest {
+  id: PlaybookId;
+  instructions?: string;
+}
+
+// An earlier result, kept when a recording is re-analyzed
+export interface PreviousAnalysis {
+  playbookId?: PlaybookId;
+  analysis: string;
+  structuredAnalysis?: SalesCallAnalysis;
+  analyzedAt?: number;
+}
@@ -1,3 +1,11 @@
+import { SalesCallAnalysis } from './analysis';
+import { ChatMessage } from './chat';
+import { FollowUpEmail } from './followUp';
+import { PlaybookId, PreviousAnalysis } from './playbook';
+import { TranscriptSegment } from './transcript';
+
+export type AnalysisStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
 export interface Recording {
   id: string;
   uri: string;
@@ -5,12 +13,40 @@ export interface Recording {
   timestamp: number;
   summary?: string;
   title: string;
+  // Who the call was with, as it should appear in the CRM
+  contact?: string;
+  notes?: string;
+  transcript?: string;
+  transcriptSegments?: TranscriptSegment[];
+  analysis?: string;
+  structuredAnalysis?: SalesCallAnalysis;
+  analyzedAt?: number;
+  analysisStatus?: AnalysisStatus;
+  // Submit automatically when connectivity returns; cleared to opt out
+  autoAnalyze?: boolean;
+  // Playbook for the next analysis
+  playbookId?: PlaybookId;
+  customPlaybookInstructions?: string;
+  // Spoken language for the next analysis; unset follows the default setting
+  language?: string;
+  // Spoken language reported by the server for the current analysis
+  detectedLanguage?: string;
+  // Language the current analysis is written in, when known
+  analysisLanguage?: string;
+  // Playbook that produced `analysis`; unset for results from before playbooks
+  analysisPlaybookId?: PlaybookId;
+  // Newest first
+  previousAnalyses?: PreviousAnalysis[];
+  // Questions asked about this call and their answers, oldest first
+  chatHistory?: ChatMessage[];
+  followUpEmail?: FollowUpEmail;
 }
 
 export interface RecordingContextType {
   recordings: Recording[];
+  isLoaded: boolean;
   addRecording: (recording: Recording) => Promise<void>;
   deleteRecording: (id: string) => Promise<void>;
   updateRecording: (id: string, updates: Partial<Recording>) => Promise<void>;
   getRecording: (id: string) => Recording | undefined;
-} 
\ No newline at end of file
+} 
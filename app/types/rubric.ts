@@ -0,0 +1,19 @@
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  // Relative importance; only the ratio between criteria matters
+  weight: number;
+}
+
+export interface Rubric {
+  criteria: RubricCriterion[];
+  updatedAt: number;
+}
+
+export interface RubricContextType {
+  rubric: Rubric;
+  isLoaded: boolean;
+  // Saves on the device, then syncs to the account; `error` is a sync failure
+  saveRubric: (criteria: RubricCriterion[]) => Promise<{ error: any }>;
+}
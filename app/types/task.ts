@@ -0,0 +1,25 @@
+export type TaskStatus = 'open' | 'done';
+
+// An action item from a call, linked back to the recording it came from
+export interface Task {
+  id: string;
+  recordingId: string;
+  title: string;
+  owner?: string;
+  dueAt?: number;
+  status: TaskStatus;
+  createdAt: number;
+  completedAt?: number;
+}
+
+export interface TaskContextType {
+  tasks: Task[];
+  isLoaded: boolean;
+  // Reminder notifications for due tasks; the Profile Notifications switch
+  notificationsEnabled: boolean;
+  setNotificationsEnabled: (enabled: boolean) => Promise<boolean>;
+  addTask: (task: Omit<Task, 'id' | 'status' | 'createdAt'>) => Promise<void>;
+  updateTask: (id: string, updates: Partial<Task>) => Promise<void>;
+  deleteTask: (id: string) => Promise<void>;
+  getRecordingTasks: (recordingId: string) => Task[];
+}
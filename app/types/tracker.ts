@@ -0,0 +1,16 @@
+export type TrackerCategory = 'competitor' | 'pricing' | 'product' | 'other';
+
+export interface Tracker {
+  id: string;
+  name: string;
+  // Alternate spellings or phrases that count as a mention
+  synonyms: string[];
+  category: TrackerCategory;
+}
+
+export interface TrackerContextType {
+  trackers: Tracker[];
+  isLoaded: boolean;
+  saveTracker: (tracker: Tracker) => Promise<void>;
+  deleteTracker: (id: string) => Promise<void>;
+}
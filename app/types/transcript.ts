@@ -0,0 +1,7 @@
+export interface TranscriptSegment {
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
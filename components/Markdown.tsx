@@ -0,0 +1,105 @@
+import { useMemo } from 'react';
+import { Platform, StyleSheet, Text, View, type StyleProp, type TextStyle } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { MarkdownInline, parseMarkdown } from '@/lib/markdown';
+
+export type MarkdownProps = {
+  children: string;
+  textStyle?: StyleProp<TextStyle>;
+};
+
+// Nested spans are plain Text so they inherit the enclosing block's style
+function InlineSpans({ content }: { content: MarkdownInline[] }) {
+  return (
+    <>
+      {content.map((span, index) => (
+        <Text
+          key={index}
+          style={[
+            span.type === 'bold' ? styles.bold : undefined,
+            span.type === 'italic' ? styles.italic : undefined,
+            span.type === 'code' ? styles.code : undefined,
+          ]}>
+          {span.text}
+        </Text>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Renders the markdown subset understood by `parseMarkdown`. Text inherits the
+ * themed colors unless `textStyle` overrides them.
+ */
+export function Markdown({ children, textStyle }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(children), [children]);
+
+  return (
+    <View>
+      {blocks.map((block, index) => {
+        if (block.type === 'heading') {
+          return (
+            <ThemedText
+              key={index}
+              type={block.level <= 2 ? 'subtitle' : 'defaultSemiBold'}
+              style={[styles.heading, textStyle]}>
+              <InlineSpans content={block.content} />
+            </ThemedText>
+          );
+        }
+
+        if (block.type === 'list') {
+          return (
+            <View key={index} style={styles.block}>
+              {block.items.map((item, itemIndex) => (
+                <View key={itemIndex} style={styles.listItem}>
+                  <ThemedText style={[styles.marker, textStyle]}>{item.marker}</ThemedText>
+                  <ThemedText style={[styles.listText, textStyle]}>
+                    <InlineSpans content={item.content} />
+                  </ThemedText>
+                </View>
+              ))}
+            </View>
+          );
+        }
+
+        return (
+          <ThemedText key={index} style={[styles.block, textStyle]}>
+            <InlineSpans content={block.content} />
+          </ThemedText>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  heading: {
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  block: {
+    marginBottom: 8,
+  },
+  listItem: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  marker: {
+    minWidth: 22,
+  },
+  listText: {
+    flex: 1,
+  },
+  bold: {
+    fontWeight: '700',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  code: {
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    backgroundColor: 'rgba(127, 127, 127, 0.15)',
+  },
+});
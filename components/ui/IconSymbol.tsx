@@ -18,6 +18,12 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'icloud.and.arrow.up': 'cloud-upload',
+  'icloud.slash': 'cloud-off',
+  'chart.bar.fill': 'insights',
+  'checklist': 'checklist',
+  'checkmark.circle.fill': 'check-circle',
+  'circle': 'radio-button-unchecked',
 } as IconMapping;
 
 /**
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import {
+  getAnalysisBackendSettings,
+  loadAnalysisBackendSettings,
+  subscribeToAnalysisBackend,
+} from '@/lib/analysisProvider';
+
+/**
+ * The current analysis backend settings, updated whenever they change
+ * elsewhere in the app (e.g. the dev backend switch in Server Connection).
+ */
+export function useAnalysisBackend() {
+  const [settings, setSettings] = useState(getAnalysisBackendSettings);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToAnalysisBackend(setSettings);
+    loadAnalysisBackendSettings();
+    return unsubscribe;
+  }, []);
+
+  return settings;
+}
@@ -0,0 +1,11 @@
+import { useNetInfo } from '@react-native-community/netinfo';
+
+/**
+ * Whether the device can currently reach the network. Reachability is
+ * unknown (null) right after launch, which is treated as online so nothing
+ * is held back until NetInfo has actually reported a disconnect.
+ */
+export function useIsOnline() {
+  const { isConnected, isInternetReachable } = useNetInfo();
+  return isConnected !== false && isInternetReachable !== false;
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { getLanguageSettings, loadLanguageSettings, subscribeToLanguageSettings } from '@/lib/languages';
+
+/**
+ * The default recording language and translation preference, updated
+ * whenever they change in Profile > Language.
+ */
+export function useLanguageSettings() {
+  const [settings, setSettings] = useState(getLanguageSettings);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToLanguageSettings(setSettings);
+    loadLanguageSettings();
+    return unsubscribe;
+  }, []);
+
+  return settings;
+}
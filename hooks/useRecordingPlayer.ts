@@ -0,0 +1,90 @@
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { useEffect, useRef, useState } from 'react';
+
+const PROGRESS_UPDATE_INTERVAL_MS = 250;
+
+/**
+ * Plays a recording with position tracking and seeking. The sound is loaded
+ * lazily on first use and unloaded when the uri changes or on unmount.
+ */
+export function useRecordingPlayer(uri: string | undefined) {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMillis, setPositionMillis] = useState(0);
+  const [durationMillis, setDurationMillis] = useState(0);
+
+  useEffect(() => {
+    return () => {
+      soundRef.current?.unloadAsync();
+      soundRef.current = null;
+      setIsPlaying(false);
+      setPositionMillis(0);
+      setDurationMillis(0);
+    };
+  }, [uri]);
+
+  const onPlaybackStatusUpdate = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    setIsPlaying(status.isPlaying);
+    setPositionMillis(status.positionMillis);
+    if (status.durationMillis) {
+      setDurationMillis(status.durationMillis);
+    }
+    if (status.didJustFinish) {
+      soundRef.current?.setPositionAsync(0);
+    }
+  };
+
+  const loadSound = async () => {
+    if (soundRef.current) return soundRef.current;
+    if (!uri) return null;
+
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: false,
+      playsInSilentModeIOS: true,
+      staysActiveInBackground: false,
+      shouldDuckAndroid: true,
+      playThroughEarpieceAndroid: false,
+      interruptionModeAndroid: 1,
+      interruptionModeIOS: 1,
+    });
+
+    const { sound } = await Audio.Sound.createAsync(
+      { uri },
+      { shouldPlay: false, progressUpdateIntervalMillis: PROGRESS_UPDATE_INTERVAL_MS },
+      onPlaybackStatusUpdate
+    );
+    soundRef.current = sound;
+    return sound;
+  };
+
+  const togglePlayback = async () => {
+    try {
+      const sound = await loadSound();
+      if (!sound) return;
+      if (isPlaying) {
+        await sound.pauseAsync();
+      } else {
+        await sound.playAsync();
+      }
+    } catch (error) {
+      console.error('Playback failed:', error);
+      setIsPlaying(false);
+    }
+  };
+
+  const seekTo = async (seconds: number, play = true) => {
+    try {
+      const sound = await loadSound();
+      if (!sound) return;
+      await sound.setPositionAsync(Math.max(0, seconds * 1000));
+      if (play) {
+        await sound.playAsync();
+      }
+    } catch (error) {
+      console.error('Seek failed:', error);
+    }
+  };
+
+  return { isPlaying, positionMillis, durationMillis, togglePlayback, seekTo };
+}
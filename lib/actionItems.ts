@@ -0,0 +1,136 @@
+import { Task } from '../app/types/task';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Reminders for a due date fire at this local hour
+const DUE_HOUR = 9;
+// Something due today is due by the end of the working day
+const END_OF_DAY_HOUR = 17;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "I'll send...", "We will..." are the rep's; "They will..." the prospect's
+const SELF_PATTERN = /^(i|we|i'll|we'll|rep|our team)\b/i;
+const PROSPECT_PATTERN = /^(they|they'll|prospect|customer|client)\b/i;
+// "Sarah will send the deck", "Sarah needs to review"
+const NAMED_OWNER_PATTERN = /^([A-Z][a-z]+)\s+(will|should|needs to)\s+/;
+// "Send the deck (owner: Sarah)"
+const EXPLICIT_OWNER_PATTERN = /\(\s*owner:\s*([^)]+)\)/i;
+
+export const SELF_OWNER = 'Me';
+export const PROSPECT_OWNER = 'Prospect';
+
+export interface ActionItem {
+  title: string;
+  owner?: string;
+  dueAt?: number;
+}
+
+function atDueHour(date: Date) {
+  const due = new Date(date);
+  due.setHours(DUE_HOUR, 0, 0, 0);
+  return due.getTime();
+}
+
+function addDays(from: number, days: number) {
+  return atDueHour(new Date(from + days * DAY_MS));
+}
+
+/**
+ * Due later today: the end of the working day, or once that has passed the
+ * next full hour, so a task made in the evening isn't born overdue.
+ */
+function dueToday(now: number) {
+  const endOfWorkDay = new Date(now).setHours(END_OF_DAY_HOUR, 0, 0, 0);
+  if (endOfWorkDay > now) return endOfWorkDay;
+  const nextHour = new Date(now).setMinutes(60, 0, 0);
+  return Math.min(nextHour, new Date(now).setHours(23, 59, 0, 0));
+}
+
+/**
+ * Reads a due date from phrases like "by Friday", "tomorrow", "next week",
+ * "end of month" or "10/24" / "Oct 24". Weekdays resolve to the next
+ * occurrence after `now`; anything landing on today, such as "end of week"
+ * said on a Friday, is due later today.
+ */
+export function parseDueDate(text: string, now = Date.now()): number | undefined {
+  const dueAt = readDueDate(text, now);
+  if (dueAt === undefined) return undefined;
+  return new Date(dueAt).toDateString() === new Date(now).toDateString() ? dueToday(now) : dueAt;
+}
+
+function readDueDate(text: string, now: number): number | undefined {
+  const lowered = text.toLowerCase();
+  const today = new Date(now);
+
+  if (/\btoday\b|\bend of (the )?day\b|\beod\b/.test(lowered)) return dueToday(now);
+  if (/\btomorrow\b/.test(lowered)) return addDays(now, 1);
+
+  const weekday = WEEKDAYS.findIndex(day => new RegExp(`\\b${day}\\b`).test(lowered));
+  if (weekday >= 0) {
+    const daysAhead = (weekday - today.getDay() + 7) % 7 || 7;
+    return addDays(now, /\bnext week\b/.test(lowered) && daysAhead < 7 ? daysAhead + 7 : daysAhead);
+  }
+
+  if (/\bend of (the )?week\b/.test(lowered)) return addDays(now, (5 - today.getDay() + 7) % 7);
+  if (/\bnext week\b/.test(lowered)) return addDays(now, 7);
+  if (/\bend of (the )?month\b/.test(lowered)) {
+    return atDueHour(new Date(today.getFullYear(), today.getMonth() + 1, 0));
+  }
+
+  const numeric = lowered.match(/\b(\d{1,2})\/(\d{1,2})\b/);
+  const named = lowered.match(new RegExp(`\\b(${MONTHS.join('|')})[a-z]*\\.?\\s+(\\d{1,2})\\b`));
+  const month = numeric ? Number(numeric[1]) - 1 : named ? MONTHS.indexOf(named[1]) : -1;
+  const day = numeric ? Number(numeric[2]) : named ? Number(named[2]) : 0;
+  if (month >= 0 && month < 12 && day >= 1 && day <= 31) {
+    const date = new Date(today.getFullYear(), month, day);
+    // A date that already passed this year means next year
+    if (atDueHour(date) < now - DAY_MS) date.setFullYear(date.getFullYear() + 1);
+    return atDueHour(date);
+  }
+
+  return undefined;
+}
+
+export function parseOwner(text: string): string | undefined {
+  const explicit = text.match(EXPLICIT_OWNER_PATTERN);
+  if (explicit) return explicit[1].trim();
+  if (SELF_PATTERN.test(text)) return SELF_OWNER;
+  if (PROSPECT_PATTERN.test(text)) return PROSPECT_OWNER;
+  return text.match(NAMED_OWNER_PATTERN)?.[1];
+}
+
+/** Turns the analysis's next steps into action items with owner and due date where stated. */
+export function parseActionItems(nextSteps: string[], now = Date.now()): ActionItem[] {
+  return nextSteps
+    .map(step => step.trim())
+    .filter(Boolean)
+    .map(step => ({
+      title: step.replace(EXPLICIT_OWNER_PATTERN, '').replace(/\s{2,}/g, ' ').trim(),
+      owner: parseOwner(step),
+      dueAt: parseDueDate(step, now),
+    }));
+}
+
+export function isOverdue(task: Pick<Task, 'status' | 'dueAt'>, now = Date.now()) {
+  return task.status === 'open' && task.dueAt !== undefined && task.dueAt < now;
+}
+
+export function formatDueDate(dueAt: number, now = Date.now()) {
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0);
+  const days = Math.floor((dueAt - startOfToday) / DAY_MS);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  if (days === -1) return 'Yesterday';
+  if (days > 1 && days < 7) return new Date(dueAt).toLocaleDateString(undefined, { weekday: 'long' });
+  return new Date(dueAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+// Quick picks offered when editing a task's due date
+export const DUE_DATE_OPTIONS: { label: string; getDueAt: (now: number) => number | undefined }[] = [
+  { label: 'Today', getDueAt: dueToday },
+  { label: 'Tomorrow', getDueAt: now => addDays(now, 1) },
+  { label: 'In 3 days', getDueAt: now => addDays(now, 3) },
+  { label: 'Next week', getDueAt: now => addDays(now, 7) },
+  { label: 'No date', getDueAt: () => undefined },
+];
@@ -0,0 +1,715 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import { File } from 'expo-file-system';
+import { SalesCallAnalysis } from '../app/types/analysis';
+import { ChatMessage } from '../app/types/chat';
+import { PlaybookRequest } from '../app/types/playbook';
+import { Recording } from '../app/types/recording';
+import { RubricCriterion } from '../app/types/rubric';
+import { TranscriptSegment } from '../app/types/transcript';
+import { StreamMessage, createStreamParser, getStreamFormat } from './analysisStream';
+import { parseSalesCallAnalysis, toAnalysisText } from './salesCallAnalysis';
+import { parseTranscriptSegments } from './transcript';
+
+export const ANALYZE_PATH = '/analyze_sales_call';
+export const CHAT_PATH = '/chat';
+export const HEALTH_PATH = '/health';
+export const UPLOADS_PATH = '/uploads';
+
+const SERVER_URL_OVERRIDE_KEY = '@analysisServerUrl';
+const DEFAULT_TIMEOUT_MS = 60000;
+const HEALTH_TIMEOUT_MS = 10000;
+// Earlier turns sent with a question, so follow-ups keep their context
+const CHAT_HISTORY_LIMIT = 20;
+const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+// Smaller files go up in a single multipart request
+const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+
+// Build-time endpoint: EXPO_PUBLIC_ANALYSIS_API_URL wins so dev, staging and
+// prod builds can point elsewhere without touching app.json.
+const configuredServerUrl: string | undefined =
+  process.env.EXPO_PUBLIC_ANALYSIS_API_URL || Constants.expoConfig?.extra?.ANALYSIS_API_URL;
+
+export type AnalysisErrorCode =
+  | 'config'
+  | 'unauthenticated'
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'server'
+  | 'invalid_response';
+
+export class AnalysisError extends Error {
+  code: AnalysisErrorCode;
+  status?: number;
+
+  constructor(code: AnalysisErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export interface AnalysisResponse {
+  transcription: string;
+  // Plain-text form, kept for display fallbacks and text-to-speech
+  analysis: string;
+  structuredAnalysis: SalesCallAnalysis;
+  // Only present when the server returns timestamped segments
+  segments?: TranscriptSegment[];
+  // ISO 639-1 codes, when the server reports them
+  language?: string;
+  analysisLanguage?: string;
+}
+
+export interface HealthCheckResult {
+  serverUrl: string;
+  latencyMs: number;
+  status?: string;
+  version?: string;
+}
+
+export type AnalysisStage = 'uploading' | 'transcribing' | 'analyzing';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  // 0-1, only known while uploading
+  uploadProgress?: number;
+  transcription?: string;
+  segments?: TranscriptSegment[];
+  partialAnalysis?: SalesCallAnalysis;
+}
+
+// Supplied by AuthContext so the client never holds on to a stale token
+export interface AccessTokenProvider {
+  getAccessToken: () => Promise<string | null>;
+  refreshAccessToken: () => Promise<string | null>;
+}
+
+interface RequestOptions {
+  signal?: AbortSignal;
+  // For streaming this is an idle timeout: it restarts whenever data arrives
+  timeoutMs?: number;
+}
+
+export interface AnalyzeOptions extends RequestOptions {
+  auth: AccessTokenProvider;
+  playbook?: PlaybookRequest;
+  // Custom scorecard; the server returns a score per criterion
+  rubric?: RubricCriterion[];
+  // ISO 639-1 code of the spoken language; omitted to let the server detect it
+  language?: string;
+  // Write the analysis in this language rather than the spoken one
+  translateTo?: string;
+  // Requests a streamed response; servers that don't stream still work
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Chunked upload session from an earlier attempt to resume
+  uploadId?: string;
+  // Called when a new chunked upload session starts so it can be persisted
+  onUploadSession?: (uploadId: string) => void;
+}
+
+export interface ChatOptions extends RequestOptions {
+  auth: AccessTokenProvider;
+}
+
+export type ChatContext = Pick<Recording, 'title' | 'transcript' | 'transcriptSegments' | 'analysis'>;
+
+export function normalizeServerUrl(url: string) {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+}
+
+export function getConfiguredServerUrl() {
+  return configuredServerUrl ? normalizeServerUrl(configuredServerUrl) : null;
+}
+
+export async function getServerUrlOverride() {
+  try {
+    return await AsyncStorage.getItem(SERVER_URL_OVERRIDE_KEY);
+  } catch (error) {
+    console.error('Error loading server URL override:', error);
+    return null;
+  }
+}
+
+export async function setServerUrlOverride(url: string | null) {
+  if (url && url.trim()) {
+    await AsyncStorage.setItem(SERVER_URL_OVERRIDE_KEY, normalizeServerUrl(url));
+  } else {
+    await AsyncStorage.removeItem(SERVER_URL_OVERRIDE_KEY);
+  }
+}
+
+/**
+ * Resolves the active analysis server: the in-app override if one is saved,
+ * otherwise the build configuration.
+ */
+export async function getServerUrl() {
+  const override = await getServerUrlOverride();
+  const serverUrl = override || getConfiguredServerUrl();
+  if (!serverUrl) {
+    throw new AnalysisError('config', 'No analysis server is configured');
+  }
+  return serverUrl;
+}
+
+function buildAnalyzeBody(recording: Pick<Recording, 'uri'>, options: AnalyzeOptions) {
+  const { playbook, rubric, language, translateTo } = options;
+  const formData = new FormData();
+  formData.append('file', {
+    uri: recording.uri,
+    type: 'audio/m4a',
+    name: 'recording.m4a',
+  } as any);
+  if (playbook) {
+    formData.append('playbook', playbook.id);
+    if (playbook.instructions) {
+      formData.append('playbook_instructions', playbook.instructions);
+    }
+  }
+  if (rubric?.length) {
+    formData.append('rubric', JSON.stringify(rubric));
+  }
+  if (language) {
+    formData.append('language', language);
+  }
+  if (translateTo) {
+    formData.append('translate_to', translateTo);
+  }
+  return formData;
+}
+
+async function readJson(response: Response): Promise<any> {
+  try {
+    return await response.json();
+  } catch {
+    throw new AnalysisError('invalid_response', 'Server response was not valid JSON');
+  }
+}
+
+function readReceivedBytes(data: any): number {
+  const receivedBytes = data?.received_bytes ?? data?.receivedBytes;
+  if (typeof receivedBytes !== 'number' || receivedBytes < 0) {
+    throw new AnalysisError('invalid_response', 'Upload response is missing received_bytes');
+  }
+  return receivedBytes;
+}
+
+/**
+ * Resumes the given upload session from the bytes the server already holds,
+ * or opens a new one if there is none or it has expired.
+ */
+async function openUploadSession(
+  size: number,
+  headers: Record<string, string>,
+  options: AnalyzeOptions
+) {
+  if (options.uploadId) {
+    try {
+      const response = await request(
+        `${UPLOADS_PATH}/${encodeURIComponent(options.uploadId)}`,
+        { method: 'GET', headers: { 'Accept': 'application/json', ...headers } },
+        options
+      );
+      return { uploadId: options.uploadId, receivedBytes: readReceivedBytes(await readJson(response)) };
+    } catch (error) {
+      if (!(error instanceof AnalysisError) || error.status !== 404) throw error;
+    }
+  }
+
+  const response = await request(
+    UPLOADS_PATH,
+    {
+      method: 'POST',
+      headers: { 'Accept': 'application/json', 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ filename: 'recording.m4a', content_type: 'audio/m4a', size }),
+    },
+    options
+  );
+  const data = await readJson(response);
+  const uploadId = data?.upload_id ?? data?.uploadId;
+  if (typeof uploadId !== 'string' || !uploadId) {
+    throw new AnalysisError('invalid_response', 'Upload response is missing upload_id');
+  }
+  options.onUploadSession?.(uploadId);
+  return { uploadId, receivedBytes: 0 };
+}
+
+/**
+ * Sends the file in parts, each acknowledged with the total bytes the server
+ * has stored, so an interrupted upload continues from the last good chunk.
+ */
+async function uploadInChunks(
+  file: File,
+  headers: Record<string, string>,
+  options: AnalyzeOptions
+) {
+  const size = file.size;
+  const session = await openUploadSession(size, headers, options);
+  const partPath = `${UPLOADS_PATH}/${encodeURIComponent(session.uploadId)}`;
+  let receivedBytes = session.receivedBytes;
+
+  const reportProgress = () => {
+    options.onProgress?.({ stage: 'uploading', uploadProgress: size > 0 ? receivedBytes / size : 1 });
+  };
+  reportProgress();
+
+  const handle = file.open();
+  try {
+    while (receivedBytes < size) {
+      handle.offset = receivedBytes;
+      const chunk = handle.readBytes(Math.min(UPLOAD_CHUNK_SIZE, size - receivedBytes));
+      const response = await request(
+        `${partPath}/parts?offset=${receivedBytes}`,
+        {
+          method: 'PUT',
+          headers: { 'Accept': 'application/json', 'Content-Type': 'application/octet-stream', ...headers },
+          body: chunk,
+        },
+        options
+      );
+      const acknowledgedBytes = readReceivedBytes(await readJson(response));
+      // Guards against looping forever on a server that stops accepting data
+      if (acknowledgedBytes <= receivedBytes) {
+        throw new AnalysisError('invalid_response', 'Upload did not advance');
+      }
+      receivedBytes = acknowledgedBytes;
+      reportProgress();
+    }
+  } finally {
+    handle.close();
+  }
+
+  await request(
+    `${partPath}/complete`,
+    { method: 'POST', headers: { 'Accept': 'application/json', ...headers } },
+    options
+  );
+  return session.uploadId;
+}
+
+/**
+ * Runs `send` with a bearer token. A 401 means the token expired between
+ * reading and use, so the session is refreshed and the call retried once.
+ */
+async function withAccessToken<T>(
+  auth: AccessTokenProvider,
+  send: (headers: Record<string, string>) => Promise<T>
+): Promise<T> {
+  const accessToken = await auth.getAccessToken();
+  if (!accessToken) {
+    throw new AnalysisError('unauthenticated', 'You are signed out');
+  }
+
+  try {
+    return await send({ 'Authorization': `Bearer ${accessToken}` });
+  } catch (error) {
+    if (!(error instanceof AnalysisError) || error.status !== 401) throw error;
+
+    const refreshedToken = await auth.refreshAccessToken();
+    if (!refreshedToken) {
+      throw new AnalysisError('unauthenticated', 'Your session has expired', 401);
+    }
+    try {
+      return await send({ 'Authorization': `Bearer ${refreshedToken}` });
+    } catch (retryError) {
+      if (retryError instanceof AnalysisError && retryError.status === 401) {
+        throw new AnalysisError('unauthenticated', 'The server rejected your session', 401);
+      }
+      throw retryError;
+    }
+  }
+}
+
+function readLanguage(value: unknown) {
+  return typeof value === 'string' && value ? value.toLowerCase() : undefined;
+}
+
+function parseAnalysisResponse(data: any): AnalysisResponse {
+  if (!data || typeof data.transcription !== 'string') {
+    throw new AnalysisError('invalid_response', 'Invalid response format from server');
+  }
+
+  // Older servers return `analysis` as free text, newer ones as an object
+  const structuredAnalysis = parseSalesCallAnalysis(data.analysis);
+  if (!data.transcription || !structuredAnalysis) {
+    throw new AnalysisError('invalid_response', 'Server returned an empty analysis');
+  }
+
+  return {
+    transcription: data.transcription,
+    analysis: typeof data.analysis === 'string' ? data.analysis : toAnalysisText(structuredAnalysis),
+    structuredAnalysis,
+    segments: parseTranscriptSegments(data.segments),
+    language: readLanguage(data.language ?? data.detected_language),
+    analysisLanguage: readLanguage(data.analysis_language ?? data.analysisLanguage),
+  };
+}
+
+async function request(path: string, init: RequestInit, options: RequestOptions, serverUrl?: string) {
+  serverUrl = serverUrl ?? await getServerUrl();
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  const abortFromCaller = () => controller.abort();
+  if (options.signal?.aborted) {
+    controller.abort();
+  }
+  options.signal?.addEventListener('abort', abortFromCaller);
+
+  try {
+    const response = await fetch(`${serverUrl}${path}`, { ...init, signal: controller.signal });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new AnalysisError('server', `Server error: ${response.status} - ${errorText}`, response.status);
+    }
+
+    return response;
+  } catch (error) {
+    if (error instanceof AnalysisError) throw error;
+    if (timedOut) {
+      throw new AnalysisError('timeout', 'Request timed out');
+    }
+    if (options.signal?.aborted) {
+      throw new AnalysisError('aborted', 'Request was cancelled');
+    }
+    throw new AnalysisError('network', error instanceof Error ? error.message : 'Network request failed');
+  } finally {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+/**
+ * Posts the recording with XMLHttpRequest, which (unlike fetch in React
+ * Native) reports upload progress and exposes the response as it arrives.
+ * A plain JSON reply is accepted too, so older servers keep working.
+ */
+async function streamAnalyzeRequest(
+  path: string,
+  body: FormData | string,
+  headers: Record<string, string>,
+  options: RequestOptions & { onProgress: (progress: AnalysisProgress) => void }
+) {
+  const serverUrl = await getServerUrl();
+
+  return new Promise<AnalysisResponse>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    // A string body references an already uploaded file, so there is nothing to upload
+    let progress: AnalysisProgress =
+      typeof body === 'string' ? { stage: 'transcribing' } : { stage: 'uploading', uploadProgress: 0 };
+    let parser: ReturnType<typeof createStreamParser> | null = null;
+    let processedLength = 0;
+    let partialAnalysis: unknown;
+    let result: AnalysisResponse | null = null;
+    let idleTimeoutId: ReturnType<typeof setTimeout> | undefined;
+    let settled = false;
+
+    const finish = (error: AnalysisError | null, response?: AnalysisResponse) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(idleTimeoutId);
+      options.signal?.removeEventListener('abort', abortFromCaller);
+      if (error) {
+        reject(error);
+      } else {
+        resolve(response!);
+      }
+    };
+
+    const fail = (error: AnalysisError) => {
+      finish(error);
+      xhr.abort();
+    };
+
+    const resetIdleTimeout = () => {
+      clearTimeout(idleTimeoutId);
+      idleTimeoutId = setTimeout(
+        () => fail(new AnalysisError('timeout', 'Request timed out')),
+        options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      );
+    };
+
+    const abortFromCaller = () => fail(new AnalysisError('aborted', 'Request was cancelled'));
+
+    const report = (update: Partial<AnalysisProgress>) => {
+      progress = { ...progress, ...update };
+      options.onProgress(progress);
+    };
+
+    const handleMessage = (message: StreamMessage) => {
+      switch (message.type) {
+        case 'stage':
+          if (message.stage === 'transcribing' || message.stage === 'analyzing') {
+            report({ stage: message.stage, uploadProgress: undefined });
+          }
+          break;
+        case 'transcript':
+          report({
+            stage: 'analyzing',
+            transcription: message.transcription ?? message.text,
+            segments: parseTranscriptSegments(message.segments),
+          });
+          break;
+        case 'analysis':
+          partialAnalysis =
+            typeof message.analysis === 'object' && typeof partialAnalysis === 'object'
+              ? { ...(partialAnalysis as object), ...message.analysis }
+              : message.analysis;
+          report({ stage: 'analyzing', partialAnalysis: parseSalesCallAnalysis(partialAnalysis) ?? undefined });
+          break;
+        case 'result':
+          result = parseAnalysisResponse(message.result ?? message);
+          break;
+        case 'error':
+          throw new AnalysisError('server', message.message ?? 'Analysis failed on the server');
+      }
+    };
+
+    const consumeResponse = (isComplete: boolean) => {
+      if (!parser) {
+        parser = createStreamParser(getStreamFormat(xhr.getResponseHeader('Content-Type')) ?? 'ndjson');
+      }
+      const text = xhr.responseText ?? '';
+      const messages = parser.push(text.slice(processedLength));
+      processedLength = text.length;
+      (isComplete ? [...messages, ...parser.flush()] : messages).forEach(handleMessage);
+    };
+
+    const isStreamResponse = () => getStreamFormat(xhr.getResponseHeader('Content-Type')) !== null;
+
+    xhr.open('POST', `${serverUrl}${path}`);
+    xhr.setRequestHeader('Accept', 'text/event-stream, application/json');
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => {
+      resetIdleTimeout();
+      if (progress.stage === 'uploading' && event.lengthComputable && event.total > 0) {
+        report({ stage: 'uploading', uploadProgress: event.loaded / event.total });
+      }
+    };
+    xhr.upload.onload = () => {
+      if (progress.stage === 'uploading') {
+        report({ stage: 'transcribing', uploadProgress: undefined });
+      }
+    };
+
+    xhr.onprogress = () => {
+      resetIdleTimeout();
+      if (xhr.status >= 200 && xhr.status < 300 && isStreamResponse()) {
+        try {
+          consumeResponse(false);
+        } catch (error) {
+          fail(error instanceof AnalysisError ? error : new AnalysisError('invalid_response', 'Malformed stream'));
+        }
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        finish(new AnalysisError('server', `Server error: ${xhr.status} - ${xhr.responseText}`, xhr.status));
+        return;
+      }
+
+      try {
+        if (!isStreamResponse()) {
+          finish(null, parseAnalysisResponse(JSON.parse(xhr.responseText)));
+          return;
+        }
+
+        consumeResponse(true);
+        // Servers may end the stream without a result message once both parts were sent
+        const finalResult = result ?? parseAnalysisResponse({
+          transcription: progress.transcription,
+          analysis: partialAnalysis,
+          segments: progress.segments,
+        });
+        finish(null, finalResult);
+      } catch (error) {
+        finish(error instanceof AnalysisError
+          ? error
+          : new AnalysisError('invalid_response', 'Server response was not valid JSON'));
+      }
+    };
+
+    xhr.onerror = () => finish(new AnalysisError('network', 'Network request failed'));
+    xhr.onabort = () => finish(new AnalysisError('aborted', 'Request was cancelled'));
+
+    if (options.signal?.aborted) {
+      finish(new AnalysisError('aborted', 'Request was cancelled'));
+      return;
+    }
+    options.signal?.addEventListener('abort', abortFromCaller);
+
+    resetIdleTimeout();
+    report(progress);
+    xhr.send(body);
+  });
+}
+
+/**
+ * Uploads a recording to the analysis server and returns its transcription
+ * and analysis. Passing `onProgress` streams stages and partial results.
+ * Large files are uploaded in resumable chunks before analysis is requested.
+ */
+export async function analyzeRecording(
+  recording: Pick<Recording, 'uri'>,
+  options: AnalyzeOptions
+): Promise<AnalysisResponse> {
+  const { onProgress } = options;
+  // Remembered across the auth retry so a second attempt resumes the upload
+  let uploadId = options.uploadId;
+  const uploadOptions: AnalyzeOptions = {
+    ...options,
+    onUploadSession: (newUploadId) => {
+      uploadId = newUploadId;
+      options.onUploadSession?.(newUploadId);
+    },
+  };
+
+  return withAccessToken(options.auth, async (authHeaders) => {
+    const file = new File(recording.uri);
+    let body: FormData | string;
+    let headers: Record<string, string>;
+
+    if (file.exists && file.size > CHUNKED_UPLOAD_THRESHOLD) {
+      const completedUploadId = await uploadInChunks(file, authHeaders, { ...uploadOptions, uploadId });
+      body = JSON.stringify({
+        upload_id: completedUploadId,
+        playbook: options.playbook?.id,
+        playbook_instructions: options.playbook?.instructions,
+        rubric: options.rubric?.length ? options.rubric : undefined,
+        language: options.language,
+        translate_to: options.translateTo,
+      });
+      headers = { 'Content-Type': 'application/json', ...authHeaders };
+    } else {
+      // A fresh body per attempt; a retried request can't reuse a sent one
+      body = buildAnalyzeBody(recording, options);
+      // Don't set Content-Type - let fetch handle it for FormData
+      headers = authHeaders;
+    }
+
+    if (onProgress) {
+      return streamAnalyzeRequest(ANALYZE_PATH, body, headers, { ...options, onProgress });
+    }
+
+    const response = await request(
+      ANALYZE_PATH,
+      { method: 'POST', body, headers: { 'Accept': 'application/json', ...headers } },
+      options
+    );
+    return parseAnalysisResponse(await readJson(response));
+  });
+}
+
+/**
+ * Asks a question about a recording. The transcript, analysis and recent
+ * conversation are sent along so the server needs no state of its own.
+ */
+export async function askAboutRecording(
+  recording: ChatContext,
+  question: string,
+  history: ChatMessage[],
+  options: ChatOptions
+): Promise<string> {
+  const body = JSON.stringify({
+    question,
+    title: recording.title,
+    transcript: recording.transcript,
+    segments: recording.transcriptSegments,
+    analysis: recording.analysis,
+    history: history.slice(-CHAT_HISTORY_LIMIT).map(({ role, content }) => ({ role, content })),
+  });
+
+  const data = await withAccessToken(options.auth, async (authHeaders) => {
+    const response = await request(
+      CHAT_PATH,
+      {
+        method: 'POST',
+        body,
+        headers: { 'Accept': 'application/json', 'Content-Type': 'application/json', ...authHeaders },
+      },
+      options
+    );
+    return readJson(response);
+  });
+
+  const answer = data?.answer ?? data?.message;
+  if (typeof answer !== 'string' || !answer.trim()) {
+    throw new AnalysisError('invalid_response', 'Server returned an empty answer');
+  }
+  return answer.trim();
+}
+
+/**
+ * Pings the health route of the given server (or the active one) and reports
+ * round-trip latency along with whatever status/version the server returns.
+ * Sent without credentials: the URL may be unsaved, untrusted or plain http.
+ */
+export async function checkServerHealth(serverUrl?: string): Promise<HealthCheckResult> {
+  const targetUrl = serverUrl ? normalizeServerUrl(serverUrl) : await getServerUrl();
+  const startedAt = Date.now();
+  const response = await request(
+    HEALTH_PATH,
+    { method: 'GET', headers: { 'Accept': 'application/json' } },
+    { timeoutMs: HEALTH_TIMEOUT_MS },
+    targetUrl
+  );
+  const latencyMs = Date.now() - startedAt;
+
+  let data: any = null;
+  try {
+    data = await response.json();
+  } catch {
+    // A plain-text health route is still a healthy server
+  }
+
+  return {
+    serverUrl: targetUrl,
+    latencyMs,
+    status: typeof data?.status === 'string' ? data.status : undefined,
+    version: typeof data?.version === 'string' ? data.version : undefined,
+  };
+}
+
+export function getAnalysisErrorMessage(error: unknown) {
+  if (!(error instanceof AnalysisError)) {
+    return 'Failed to analyze recording. Please try again.';
+  }
+
+  switch (error.code) {
+    case 'config':
+      return 'No analysis server is configured. Set one in Profile > Server Connection.';
+    case 'unauthenticated':
+      return 'You are signed out. Please log in again to analyze recordings.';
+    case 'network':
+      return 'Network connection failed. Please check your internet connection and ensure the backend server is running.';
+    case 'timeout':
+      return 'Request timed out. The server may be processing a large file. Please try again.';
+    case 'aborted':
+      return 'The analysis was cancelled.';
+    case 'invalid_response':
+      return 'The analysis server returned an unexpected response. Please try again.';
+    default:
+      return 'Failed to analyze recording. Please try again.';
+  }
+}
+
+export function getChatErrorMessage(error: unknown) {
+  if (!(error instanceof AnalysisError) || error.code === 'server' || error.code === 'invalid_response') {
+    return 'Could not get an answer. Please try again.';
+  }
+  if (error.code === 'unauthenticated') {
+    return 'You are signed out. Please log in again to ask about this call.';
+  }
+  return getAnalysisErrorMessage(error);
+}
@@ -0,0 +1,106 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ChatMessage } from '../app/types/chat';
+import { Recording } from '../app/types/recording';
+import {
+  AnalysisErrorCode,
+  AnalysisResponse,
+  AnalyzeOptions,
+  ChatContext,
+  ChatOptions,
+  HealthCheckResult,
+  analyzeRecording,
+  askAboutRecording,
+  checkServerHealth,
+} from './analysisClient';
+import { createMockAnalysisProvider } from './mockAnalysisProvider';
+
+const BACKEND_SETTINGS_KEY = '@analysisBackend';
+
+export type AnalysisProviderId = 'http' | 'mock';
+
+/** Where recordings are sent for transcription and analysis. */
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  analyzeRecording: (recording: Pick<Recording, 'uri'>, options: AnalyzeOptions) => Promise<AnalysisResponse>;
+  askQuestion: (
+    recording: ChatContext,
+    question: string,
+    history: ChatMessage[],
+    options: ChatOptions
+  ) => Promise<string>;
+  // `serverUrl` only applies to the HTTP provider
+  checkHealth: (serverUrl?: string) => Promise<HealthCheckResult>;
+}
+
+export interface AnalysisBackendSettings {
+  provider: AnalysisProviderId;
+  // Mock provider only
+  mockLatencyMs: number;
+  // Fail every Nth mock analysis; 0 never fails
+  mockFailEvery: number;
+  mockFailureCode: AnalysisErrorCode;
+}
+
+export const DEFAULT_BACKEND_SETTINGS: AnalysisBackendSettings = {
+  provider: 'http',
+  mockLatencyMs: 1000,
+  mockFailEvery: 0,
+  mockFailureCode: 'network',
+};
+
+export const httpAnalysisProvider: AnalysisProvider = {
+  id: 'http',
+  analyzeRecording,
+  askQuestion: askAboutRecording,
+  checkHealth: checkServerHealth,
+};
+
+let backendSettings = DEFAULT_BACKEND_SETTINGS;
+const listeners = new Set<(settings: AnalysisBackendSettings) => void>();
+
+// The mock backend is a development aid; release builds always use the server
+export const canUseMockBackend = __DEV__;
+
+export function getAnalysisBackendSettings() {
+  return backendSettings;
+}
+
+export async function loadAnalysisBackendSettings() {
+  if (!canUseMockBackend) return backendSettings;
+
+  try {
+    const storedSettings = await AsyncStorage.getItem(BACKEND_SETTINGS_KEY);
+    if (storedSettings) {
+      backendSettings = { ...DEFAULT_BACKEND_SETTINGS, ...JSON.parse(storedSettings) };
+      listeners.forEach(listener => listener(backendSettings));
+    }
+  } catch (error) {
+    console.error('Error loading analysis backend settings:', error);
+  }
+  return backendSettings;
+}
+
+export async function setAnalysisBackendSettings(updates: Partial<AnalysisBackendSettings>) {
+  backendSettings = { ...backendSettings, ...updates };
+  listeners.forEach(listener => listener(backendSettings));
+  await AsyncStorage.setItem(BACKEND_SETTINGS_KEY, JSON.stringify(backendSettings));
+}
+
+export function subscribeToAnalysisBackend(listener: (settings: AnalysisBackendSettings) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** The provider selected in the current backend settings. */
+export function getAnalysisProvider(settings = backendSettings): AnalysisProvider {
+  if (canUseMockBackend && settings.provider === 'mock') {
+    return createMockAnalysisProvider({
+      latencyMs: settings.mockLatencyMs,
+      failEvery: settings.mockFailEvery,
+      failureCode: settings.mockFailureCode,
+    });
+  }
+  return httpAnalysisProvider;
+}
@@ -0,0 +1,81 @@
+// Incremental parser for the streaming analyze response. The server may send
+// Server-Sent Events (`text/event-stream`) or newline-delimited JSON; both
+// carry JSON messages with a `type` field:
+//   stage      { stage: 'transcribing' | 'analyzing' }
+//   transcript { transcription, segments? }
+//   analysis   { analysis }  - partial; object fields merge, text replaces
+//   result     { transcription, analysis, segments? }  - final payload
+//   error      { message }
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+export interface StreamMessage {
+  type: string;
+  [key: string]: any;
+}
+
+export function getStreamFormat(contentType: string | null): StreamFormat | null {
+  if (!contentType) return null;
+  if (contentType.includes('text/event-stream')) return 'sse';
+  if (contentType.includes('ndjson') || contentType.includes('jsonl')) return 'ndjson';
+  return null;
+}
+
+function parseJson(text: string) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    console.warn('Skipping malformed stream message:', text.slice(0, 100));
+    return null;
+  }
+}
+
+function parseSseEvent(block: string): StreamMessage | null {
+  let eventName: string | undefined;
+  const dataLines: string[] = [];
+
+  block.split(/\r?\n/).forEach(line => {
+    if (line.startsWith('event:')) {
+      eventName = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  });
+
+  if (dataLines.length === 0) return null;
+  const data = parseJson(dataLines.join('\n'));
+  if (!data || typeof data !== 'object') return null;
+
+  const type = data.type ?? eventName;
+  return typeof type === 'string' ? { ...data, type } : null;
+}
+
+function parseJsonLine(line: string): StreamMessage | null {
+  if (!line.trim()) return null;
+  const data = parseJson(line);
+  return data && typeof data === 'object' && typeof data.type === 'string' ? data : null;
+}
+
+export function createStreamParser(format: StreamFormat) {
+  const separator = format === 'sse' ? /\r?\n\r?\n/ : /\r?\n/;
+  const parse = format === 'sse' ? parseSseEvent : parseJsonLine;
+  let buffer = '';
+
+  const toMessages = (parts: string[]) =>
+    parts.map(parse).filter((message): message is StreamMessage => message !== null);
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      const parts = buffer.split(separator);
+      // The last part may be an incomplete message; keep it for the next chunk
+      buffer = parts.pop() ?? '';
+      return toMessages(parts);
+    },
+    flush() {
+      const rest = buffer;
+      buffer = '';
+      return toMessages([rest]);
+    },
+  };
+}
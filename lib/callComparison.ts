@@ -0,0 +1,154 @@
+import { CallSentiment } from '../app/types/analysis';
+import { Recording } from '../app/types/recording';
+import { getRecordingMetrics } from './conversationMetrics';
+import { getCallScore } from './rubric';
+import { ANALYSIS_SECTIONS, AnalysisListKey, getRecordingAnalysis } from './salesCallAnalysis';
+import { formatTimestamp } from './transcript';
+
+export type ComparisonValueKind = 'score' | 'count' | 'seconds';
+export type ComparisonTrend = 'improved' | 'declined' | 'unchanged';
+
+export interface ComparisonRow {
+  label: string;
+  kind: ComparisonValueKind;
+  before: number | null;
+  after: number | null;
+  // after - before; null unless both calls have a value
+  delta: number | null;
+  // Null for values where neither direction is better, such as speaking pace
+  trend: ComparisonTrend | null;
+}
+
+export interface ListItemComparison {
+  text: string;
+  // Also raised in the other call, compared ignoring case
+  inBoth: boolean;
+}
+
+export interface ListComparison {
+  key: AnalysisListKey;
+  title: string;
+  before: ListItemComparison[];
+  after: ListItemComparison[];
+}
+
+export interface CallComparison {
+  before: Recording;
+  after: Recording;
+  sentiment: { before: CallSentiment | null; after: CallSentiment | null };
+  overview: ComparisonRow[];
+  rubric: ComparisonRow[];
+  metrics: ComparisonRow[];
+  sections: ListComparison[];
+}
+
+// Which way a change counts as better; null when it depends on the call
+type Preference = 'higher' | 'lower' | null;
+
+function buildRow(
+  label: string,
+  kind: ComparisonValueKind,
+  before: number | null | undefined,
+  after: number | null | undefined,
+  preference: Preference
+): ComparisonRow {
+  const delta = before != null && after != null ? after - before : null;
+  let trend: ComparisonTrend | null = null;
+  if (delta !== null && preference) {
+    trend = delta === 0 ? 'unchanged' : (delta > 0) === (preference === 'higher') ? 'improved' : 'declined';
+  }
+  return { label, kind, before: before ?? null, after: after ?? null, delta, trend };
+}
+
+const normalize = (item: string) => item.trim().toLowerCase();
+
+/**
+ * Lines up two calls for side-by-side review. The older call is always
+ * `before`, so deltas read as change over time.
+ */
+export function compareRecordings(first: Recording, second: Recording): CallComparison {
+  const [before, after] = first.timestamp <= second.timestamp ? [first, second] : [second, first];
+  const beforeAnalysis = getRecordingAnalysis(before);
+  const afterAnalysis = getRecordingAnalysis(after);
+  const beforeMetrics = getRecordingMetrics(before);
+  const afterMetrics = getRecordingMetrics(after);
+
+  const overview = [
+    buildRow('Overall score', 'score', getCallScore(beforeAnalysis), getCallScore(afterAnalysis), 'higher'),
+    buildRow('Duration', 'seconds', before.duration, after.duration, null),
+  ];
+
+  // Criteria match by id, falling back to the name for older results
+  const criterionKey = (criterion: { criterionId?: string; name: string }) =>
+    criterion.criterionId ?? normalize(criterion.name);
+  const beforeScores = beforeAnalysis?.rubricScores ?? [];
+  const afterScores = afterAnalysis?.rubricScores ?? [];
+  const criteria = [...beforeScores, ...afterScores].filter(
+    (criterion, index, all) => all.findIndex(other => criterionKey(other) === criterionKey(criterion)) === index
+  );
+  const rubric = criteria.map(criterion =>
+    buildRow(
+      criterion.name,
+      'score',
+      beforeScores.find(score => criterionKey(score) === criterionKey(criterion))?.score,
+      afterScores.find(score => criterionKey(score) === criterionKey(criterion))?.score,
+      'higher'
+    )
+  );
+
+  const metrics =
+    beforeMetrics || afterMetrics
+      ? [
+          buildRow('Words / min', 'count', beforeMetrics?.wordsPerMinute, afterMetrics?.wordsPerMinute, null),
+          buildRow(
+            'Longest monologue',
+            'seconds',
+            beforeMetrics?.longestMonologue?.seconds,
+            afterMetrics?.longestMonologue?.seconds,
+            'lower'
+          ),
+          buildRow('Questions', 'count', beforeMetrics?.questions, afterMetrics?.questions, 'higher'),
+          buildRow(
+            'Interruptions',
+            'count',
+            beforeMetrics?.speakers.length ? beforeMetrics.interruptions : null,
+            afterMetrics?.speakers.length ? afterMetrics.interruptions : null,
+            'lower'
+          ),
+          buildRow('Filler words', 'count', beforeMetrics?.fillerWordCount, afterMetrics?.fillerWordCount, 'lower'),
+        ]
+      : [];
+
+  const sections = ANALYSIS_SECTIONS.map(section => {
+    const beforeItems = beforeAnalysis?.[section.key] ?? [];
+    const afterItems = afterAnalysis?.[section.key] ?? [];
+    const beforeSet = new Set(beforeItems.map(normalize));
+    const afterSet = new Set(afterItems.map(normalize));
+    return {
+      ...section,
+      before: beforeItems.map(text => ({ text, inBoth: afterSet.has(normalize(text)) })),
+      after: afterItems.map(text => ({ text, inBoth: beforeSet.has(normalize(text)) })),
+    };
+  }).filter(section => section.before.length > 0 || section.after.length > 0);
+
+  return {
+    before,
+    after,
+    sentiment: { before: beforeAnalysis?.sentiment ?? null, after: afterAnalysis?.sentiment ?? null },
+    overview,
+    rubric,
+    metrics,
+    sections,
+  };
+}
+
+export function formatComparisonValue(value: number | null, kind: ComparisonValueKind) {
+  if (value === null) return '–';
+  return kind === 'seconds' ? formatTimestamp(value) : `${value}`;
+}
+
+export function formatComparisonDelta(delta: number | null, kind: ComparisonValueKind) {
+  if (delta === null) return '';
+  if (delta === 0) return '±0';
+  return `${delta > 0 ? '+' : '−'}${formatComparisonValue(Math.abs(delta), kind)}`;
+}
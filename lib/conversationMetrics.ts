@@ -0,0 +1,206 @@
+import { Recording } from '../app/types/recording';
+import { TranscriptSegment } from '../app/types/transcript';
+
+// Matched as whole words/phrases, case-insensitively
+export const FILLER_WORDS = ['um', 'uh', 'like', 'you know', 'i mean', 'kind of', 'sort of', 'basically'];
+
+// Same-speaker segments separated by less than this are one monologue
+const MONOLOGUE_GAP_SECONDS = 1.5;
+const UNKNOWN_SPEAKER = 'Speaker';
+
+export interface SpeakerMetrics {
+  speaker: string;
+  talkSeconds: number;
+  // 0-1 share of total talk time
+  talkShare: number;
+  words: number;
+  wordsPerMinute: number | null;
+  questions: number;
+  // Times this speaker started talking before the previous speaker finished
+  interruptions: number;
+}
+
+export interface ConversationMetrics {
+  // Empty when the transcript has no timed segments
+  speakers: SpeakerMetrics[];
+  longestMonologue: { speaker: string; seconds: number } | null;
+  words: number;
+  wordsPerMinute: number | null;
+  fillerWords: Record<string, number>;
+  fillerWordCount: number;
+  questions: number;
+  interruptions: number;
+}
+
+export interface AggregateConversationMetrics {
+  calls: number;
+  averageWordsPerMinute: number | null;
+  averageLongestMonologue: number | null;
+  fillerWordsPerCall: number;
+  questionsPerCall: number;
+  interruptionsPerCall: number;
+  // Most used first
+  topFillerWords: { label: string; value: number }[];
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const FILLER_PATTERNS = FILLER_WORDS.map(filler => ({
+  filler,
+  pattern: new RegExp(`\\b${escapeRegExp(filler).replace(/ /g, '\\s+')}\\b`, 'gi'),
+}));
+
+export function countWords(text: string) {
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+export function countQuestions(text: string) {
+  return (text.match(/\?+/g) ?? []).length;
+}
+
+export function countFillerWords(text: string) {
+  const counts: Record<string, number> = {};
+  FILLER_PATTERNS.forEach(({ filler, pattern }) => {
+    const matches = text.match(pattern)?.length ?? 0;
+    if (matches > 0) counts[filler] = matches;
+  });
+  return counts;
+}
+
+function sumCounts(counts: Record<string, number>) {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
+
+function perMinute(words: number, seconds: number) {
+  return seconds > 0 ? Math.round(words / (seconds / 60)) : null;
+}
+
+function getSpeakerMetrics(segments: TranscriptSegment[]): SpeakerMetrics[] {
+  const bySpeaker = new Map<string, SpeakerMetrics>();
+  const totalSeconds = segments.reduce((sum, segment) => sum + (segment.end - segment.start), 0);
+
+  segments.forEach((segment, index) => {
+    const speaker = segment.speaker ?? UNKNOWN_SPEAKER;
+    const metrics = bySpeaker.get(speaker) ?? {
+      speaker,
+      talkSeconds: 0,
+      talkShare: 0,
+      words: 0,
+      wordsPerMinute: null,
+      questions: 0,
+      interruptions: 0,
+    };
+    const previous = segments[index - 1];
+
+    metrics.talkSeconds += segment.end - segment.start;
+    metrics.words += countWords(segment.text);
+    metrics.questions += countQuestions(segment.text);
+    if (previous && (previous.speaker ?? UNKNOWN_SPEAKER) !== speaker && segment.start < previous.end) {
+      metrics.interruptions += 1;
+    }
+    bySpeaker.set(speaker, metrics);
+  });
+
+  return Array.from(bySpeaker.values())
+    .map(metrics => ({
+      ...metrics,
+      talkShare: totalSeconds > 0 ? metrics.talkSeconds / totalSeconds : 0,
+      wordsPerMinute: perMinute(metrics.words, metrics.talkSeconds),
+    }))
+    .sort((a, b) => b.talkSeconds - a.talkSeconds);
+}
+
+function getLongestMonologue(segments: TranscriptSegment[]) {
+  let longest: { speaker: string; seconds: number } | null = null;
+  let current: { speaker: string; start: number; end: number } | null = null;
+
+  const finishCurrent = () => {
+    if (current && (!longest || current.end - current.start > longest.seconds)) {
+      longest = { speaker: current.speaker, seconds: current.end - current.start };
+    }
+  };
+
+  segments.forEach(segment => {
+    const speaker = segment.speaker ?? UNKNOWN_SPEAKER;
+    if (current && current.speaker === speaker && segment.start - current.end < MONOLOGUE_GAP_SECONDS) {
+      current.end = Math.max(current.end, segment.end);
+    } else {
+      finishCurrent();
+      current = { speaker, start: segment.start, end: segment.end };
+    }
+  });
+  finishCurrent();
+
+  return longest;
+}
+
+/**
+ * Derives talk-time and speaking-habit metrics from a transcript. Timed
+ * segments give per-speaker figures; a plain transcript still yields word,
+ * filler and question counts, with pace estimated from `durationSeconds`.
+ */
+export function computeConversationMetrics(
+  transcript: string | undefined,
+  segments: TranscriptSegment[] | undefined,
+  durationSeconds?: number
+): ConversationMetrics | null {
+  const orderedSegments = [...(segments ?? [])].sort((a, b) => a.start - b.start);
+  const text = orderedSegments.length > 0 ? orderedSegments.map(segment => segment.text).join(' ') : transcript ?? '';
+  if (!text.trim()) return null;
+
+  const speakers = getSpeakerMetrics(orderedSegments);
+  const words = countWords(text);
+  const talkSeconds = speakers.reduce((sum, speaker) => sum + speaker.talkSeconds, 0);
+  const fillerWords = countFillerWords(text);
+
+  return {
+    speakers,
+    longestMonologue: getLongestMonologue(orderedSegments),
+    words,
+    wordsPerMinute: perMinute(words, talkSeconds || durationSeconds || 0),
+    fillerWords,
+    fillerWordCount: sumCounts(fillerWords),
+    questions: countQuestions(text),
+    interruptions: speakers.reduce((sum, speaker) => sum + speaker.interruptions, 0),
+  };
+}
+
+export function getRecordingMetrics(recording: Pick<Recording, 'transcript' | 'transcriptSegments' | 'duration'>) {
+  return computeConversationMetrics(recording.transcript, recording.transcriptSegments, recording.duration);
+}
+
+function average(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+export function aggregateConversationMetrics(metrics: ConversationMetrics[]): AggregateConversationMetrics {
+  const calls = metrics.length;
+  const fillerTotals: Record<string, number> = {};
+  metrics.forEach(item => {
+    Object.entries(item.fillerWords).forEach(([filler, count]) => {
+      fillerTotals[filler] = (fillerTotals[filler] ?? 0) + count;
+    });
+  });
+
+  const averageWordsPerMinute = average(
+    metrics.map(item => item.wordsPerMinute).filter((value): value is number => value !== null)
+  );
+  const averageLongestMonologue = average(
+    metrics.map(item => item.longestMonologue?.seconds).filter((value): value is number => value !== undefined)
+  );
+  const perCall = (total: number) => (calls > 0 ? Math.round((total / calls) * 10) / 10 : 0);
+
+  return {
+    calls,
+    averageWordsPerMinute: averageWordsPerMinute === null ? null : Math.round(averageWordsPerMinute),
+    averageLongestMonologue,
+    fillerWordsPerCall: perCall(sumCounts(fillerTotals)),
+    questionsPerCall: perCall(metrics.reduce((sum, item) => sum + item.questions, 0)),
+    interruptionsPerCall: perCall(metrics.reduce((sum, item) => sum + item.interruptions, 0)),
+    topFillerWords: Object.entries(fillerTotals)
+      .map(([label, value]) => ({ label, value }))
+      .sort((a, b) => b.value - a.value),
+  };
+}
@@ -0,0 +1,134 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { CrmExportFormat, CrmFieldKey, CrmFieldMapping } from '../app/types/crmExport';
+import { Recording } from '../app/types/recording';
+import { getRecordingAnalysis } from './salesCallAnalysis';
+
+const FIELD_MAPPING_KEY = '@crmFieldMapping';
+
+type CrmValue = string | number | string[] | null;
+
+export const CRM_FIELDS: {
+  key: CrmFieldKey;
+  label: string;
+  defaultColumn: string;
+  getValue: (recording: Recording) => CrmValue;
+}[] = [
+  { key: 'subject', label: 'Call title', defaultColumn: 'Subject', getValue: recording => recording.title },
+  {
+    key: 'date',
+    label: 'Date',
+    defaultColumn: 'Date',
+    getValue: recording => new Date(recording.timestamp).toISOString(),
+  },
+  {
+    key: 'duration',
+    label: 'Duration (minutes)',
+    defaultColumn: 'Duration (min)',
+    // One decimal so short calls don't export as 0
+    getValue: recording => Math.round(recording.duration / 6) / 10,
+  },
+  {
+    key: 'contact',
+    label: 'Contact',
+    defaultColumn: 'Contact',
+    // The follow-up email recipient stands in until a contact is entered
+    getValue: recording => recording.contact || recording.followUpEmail?.to || null,
+  },
+  {
+    key: 'summary',
+    label: 'Summary',
+    defaultColumn: 'Description',
+    getValue: recording => getRecordingAnalysis(recording)?.summary || recording.summary || null,
+  },
+  {
+    key: 'nextSteps',
+    label: 'Next steps',
+    defaultColumn: 'Next Steps',
+    getValue: recording => getRecordingAnalysis(recording)?.nextSteps ?? [],
+  },
+  {
+    key: 'score',
+    label: 'Score',
+    defaultColumn: 'Score',
+    getValue: recording => getRecordingAnalysis(recording)?.overallScore ?? null,
+  },
+];
+
+export const CRM_EXPORT_FORMATS: { key: CrmExportFormat; label: string; mimeType: string; uti: string }[] = [
+  { key: 'csv', label: 'CSV', mimeType: 'text/csv', uti: 'public.comma-separated-values-text' },
+  { key: 'json', label: 'JSON', mimeType: 'application/json', uti: 'public.json' },
+];
+
+export const DEFAULT_CRM_FIELD_MAPPING = Object.fromEntries(
+  CRM_FIELDS.map(field => [field.key, { column: field.defaultColumn, enabled: true }])
+) as CrmFieldMapping;
+
+export async function loadCrmFieldMapping(): Promise<CrmFieldMapping> {
+  try {
+    const stored = await AsyncStorage.getItem(FIELD_MAPPING_KEY);
+    // Merged over the defaults so fields added later show up enabled
+    return stored ? { ...DEFAULT_CRM_FIELD_MAPPING, ...JSON.parse(stored) } : DEFAULT_CRM_FIELD_MAPPING;
+  } catch (error) {
+    console.error('Error loading CRM field mapping:', error);
+    return DEFAULT_CRM_FIELD_MAPPING;
+  }
+}
+
+export async function saveCrmFieldMapping(mapping: CrmFieldMapping) {
+  await AsyncStorage.setItem(FIELD_MAPPING_KEY, JSON.stringify(mapping));
+}
+
+function getExportFields(mapping: CrmFieldMapping) {
+  return CRM_FIELDS.filter(field => mapping[field.key].enabled).map(field => ({
+    ...field,
+    column: mapping[field.key].column.trim() || field.defaultColumn,
+  }));
+}
+
+/** One object per call keyed by the mapped column names, oldest call first. */
+export function buildCrmRecords(recordings: Recording[], mapping: CrmFieldMapping) {
+  const fields = getExportFields(mapping);
+  return [...recordings]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(recording => Object.fromEntries(fields.map(field => [field.column, field.getValue(recording)])));
+}
+
+function toCsvCell(value: CrmValue) {
+  if (value === null) return '';
+  const text = Array.isArray(value) ? value.join('; ') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCrmCsv(recordings: Recording[], mapping: CrmFieldMapping) {
+  const columns = getExportFields(mapping).map(field => field.column);
+  const rows = buildCrmRecords(recordings, mapping).map(record =>
+    columns.map(column => toCsvCell(record[column])).join(',')
+  );
+  return [columns.map(toCsvCell).join(','), ...rows].join('\r\n');
+}
+
+export function toCrmJson(recordings: Recording[], mapping: CrmFieldMapping) {
+  return JSON.stringify(buildCrmRecords(recordings, mapping), null, 2);
+}
+
+/**
+ * Writes the export to the cache directory and opens the share sheet so it
+ * can be saved to Files, mailed, or handed to a CRM app.
+ */
+export async function shareCrmExport(recordings: Recording[], mapping: CrmFieldMapping, format: CrmExportFormat) {
+  const { mimeType, uti } = CRM_EXPORT_FORMATS.find(item => item.key === format)!;
+  // Excel only reads a CSV as UTF-8 when it starts with a byte order mark
+  const content = format === 'csv' ? `\uFEFF${toCrmCsv(recordings, mapping)}` : toCrmJson(recordings, mapping);
+  const fileName = `calls-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(content);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(file.uri, { mimeType, UTI: uti, dialogTitle: 'Export calls' });
+}
@@ -0,0 +1,134 @@
+import { EmailTone } from '../app/types/followUp';
+import { Recording } from '../app/types/recording';
+import { inlineToText, parseMarkdown } from './markdown';
+import { getRecordingAnalysis } from './salesCallAnalysis';
+
+export const EMAIL_TONES: { key: EmailTone; label: string }[] = [
+  { key: 'friendly', label: 'Friendly' },
+  { key: 'formal', label: 'Formal' },
+  { key: 'concise', label: 'Concise' },
+];
+
+// Next steps that promise to send something become attachment reminders
+const ATTACHMENT_PATTERN = /\b(send|share|forward|attach|email)\b/i;
+const DEFAULT_ATTACHMENT = 'slides or materials from the call';
+// Free-text analyses from older servers are cut down to roughly a paragraph
+const MAX_LEGACY_RECAP_LENGTH = 400;
+// Transcript sentences where someone commits to doing something, used when
+// there is no structured analysis to take next steps from
+const COMMITMENT_PATTERN =
+  /\b(i'll|i will|we'll|we will|let me (send|get|check|share|follow)|next steps?|follow up|send (you|over)|set up a|schedule)\b/i;
+const MAX_TRANSCRIPT_COMMITMENTS = 5;
+const MAX_COMMITMENT_LENGTH = 160;
+
+const TONE_TEMPLATES: Record<
+  EmailTone,
+  {
+    subject: string;
+    greeting: string;
+    opener: string;
+    openItems: string;
+    nextSteps: string;
+    closing: string;
+  }
+> = {
+  friendly: {
+    subject: 'Great talking today - recap and next steps',
+    greeting: 'Hi [Name],',
+    opener: "Thanks so much for taking the time to chat today! Here's a quick recap of what we covered.",
+    openItems: "A few things I'll follow up on:",
+    nextSteps: 'What we agreed on:',
+    closing: 'Looking forward to continuing the conversation!\n\nBest,\n[Your name]',
+  },
+  formal: {
+    subject: 'Follow-up: summary of our discussion and next steps',
+    greeting: 'Dear [Name],',
+    opener: 'Thank you for your time today. Please find below a summary of our discussion and the agreed next steps.',
+    openItems: 'Open points we will address:',
+    nextSteps: 'Agreed next steps:',
+    closing: 'Please let me know if I have missed anything.\n\nKind regards,\n[Your name]',
+  },
+  concise: {
+    subject: 'Recap + next steps',
+    greeting: 'Hi [Name],',
+    opener: 'Quick recap of our call:',
+    openItems: 'Open items:',
+    nextSteps: 'Next steps:',
+    closing: 'Thanks,\n[Your name]',
+  },
+};
+
+const toList = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+function getRecap(recording: Pick<Recording, 'analysis' | 'structuredAnalysis'>) {
+  if (recording.structuredAnalysis) return recording.structuredAnalysis.summary;
+  if (!recording.analysis) return '';
+
+  // A legacy analysis is one markdown document, not a summary; keep the
+  // prose as plain text and leave headings and lists behind
+  const text = parseMarkdown(recording.analysis)
+    .flatMap(block => (block.type === 'paragraph' ? [inlineToText(block.content)] : []))
+    .filter(Boolean)
+    .join(' ');
+  if (text.length <= MAX_LEGACY_RECAP_LENGTH) return text;
+  const truncated = text.slice(0, MAX_LEGACY_RECAP_LENGTH);
+  const lastSentenceEnd = Math.max(...['. ', '! ', '? '].map(end => truncated.lastIndexOf(end)));
+  return lastSentenceEnd > 0 ? truncated.slice(0, lastSentenceEnd + 1) : `${truncated.trimEnd()}…`;
+}
+
+function getTranscriptCommitments(recording: Pick<Recording, 'transcript' | 'transcriptSegments'>) {
+  const texts = recording.transcriptSegments?.length
+    ? recording.transcriptSegments.map(segment => segment.text)
+    : [recording.transcript ?? ''];
+  const seen = new Set<string>();
+  return texts
+    .flatMap(text => text.match(/[^.!?]+[.!?]*/g) ?? [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length <= MAX_COMMITMENT_LENGTH && COMMITMENT_PATTERN.test(sentence))
+    .filter(sentence => {
+      const key = sentence.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_TRANSCRIPT_COMMITMENTS);
+}
+
+/**
+ * Drafts a recap email from the stored analysis, falling back to commitments
+ * heard in the transcript when the analysis has no next steps of its own.
+ * Bracketed placeholders mark what the rep should fill in before sending;
+ * `isGeneric` means nothing specific to the call could be found.
+ */
+export function draftFollowUpEmail(
+  recording: Pick<Recording, 'analysis' | 'structuredAnalysis' | 'transcript' | 'transcriptSegments'>,
+  tone: EmailTone
+) {
+  const template = TONE_TEMPLATES[tone];
+  const analysis = getRecordingAnalysis(recording);
+  const summary = getRecap(recording) || '[Add a short summary of the call]';
+  const objections = analysis?.objections ?? [];
+  const nextSteps = recording.structuredAnalysis ? recording.structuredAnalysis.nextSteps : getTranscriptCommitments(recording);
+  const attachments = nextSteps.filter(step => ATTACHMENT_PATTERN.test(step));
+
+  const sections = [
+    template.greeting,
+    template.opener,
+    summary,
+    objections.length > 0 ? `${template.openItems}\n${toList(objections)}` : null,
+    `${template.nextSteps}\n${toList(nextSteps.length > 0 ? nextSteps : ['[Add the next steps you agreed on]'])}`,
+    `Attachments:\n${toList((attachments.length > 0 ? attachments : [DEFAULT_ATTACHMENT]).map(item => `[Attach: ${item}]`))}`,
+    template.closing,
+  ];
+
+  return {
+    subject: template.subject,
+    body: sections.filter(section => section !== null).join('\n\n'),
+    isGeneric: !recording.structuredAnalysis && nextSteps.length === 0,
+  };
+}
+
+export function buildMailtoUrl(to: string, subject: string, body: string) {
+  const recipients = to.split(/[,;\s]+/).filter(Boolean).join(',');
+  return `mailto:${recipients}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+}
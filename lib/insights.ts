@@ -0,0 +1,163 @@
+import { Recording } from '../app/types/recording';
+import {
+  AggregateConversationMetrics,
+  ConversationMetrics,
+  aggregateConversationMetrics,
+  getRecordingMetrics,
+} from './conversationMetrics';
+import { getCallScore } from './rubric';
+import { getRecordingAnalysis } from './salesCallAnalysis';
+
+export type InsightsRange = '30d' | '90d' | '1y' | 'all';
+
+export const INSIGHTS_RANGES: { key: InsightsRange; label: string; days: number | null }[] = [
+  { key: '30d', label: '30 days', days: 30 },
+  { key: '90d', label: '90 days', days: 90 },
+  { key: '1y', label: '1 year', days: 365 },
+  { key: 'all', label: 'All time', days: null },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longer spans are charted by month so the bars stay readable
+const MAX_WEEKS = 26;
+const TOP_OBJECTIONS = 5;
+
+export type TrendGrouping = 'week' | 'month';
+
+export interface PeriodStat {
+  start: number;
+  calls: number;
+  averageScore: number | null;
+}
+
+export interface RankedItem {
+  label: string;
+  value: number;
+}
+
+export interface Insights {
+  totalCalls: number;
+  analyzedCalls: number;
+  averageScore: number | null;
+  // Seconds
+  averageDuration: number;
+  // Weekly, or monthly for spans longer than MAX_WEEKS
+  grouping: TrendGrouping;
+  periods: PeriodStat[];
+  topObjections: RankedItem[];
+  // Average score per rubric criterion, strongest first
+  rubricAreas: RankedItem[];
+  // Speaking habits across calls that have a transcript
+  conversation: AggregateConversationMetrics;
+}
+
+export function getRangeStart(range: InsightsRange, now = Date.now()) {
+  const days = INSIGHTS_RANGES.find(item => item.key === range)?.days;
+  return days ? now - days * DAY_MS : null;
+}
+
+// Weeks start on Monday, local time
+export function getWeekStart(timestamp: number) {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+}
+
+export function getMonthStart(timestamp: number) {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+// Steps by calendar date so daylight saving changes don't shift week boundaries
+function addWeeks(weekStart: number, weeks: number) {
+  const date = new Date(weekStart);
+  date.setDate(date.getDate() + weeks * 7);
+  return date.getTime();
+}
+
+function addMonths(monthStart: number, months: number) {
+  const date = new Date(monthStart);
+  date.setMonth(date.getMonth() + months);
+  return date.getTime();
+}
+
+function average(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+// Objections are free text; fold case and punctuation so repeats group together
+function normalizeObjection(text: string) {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+function rank(groups: Map<string, { label: string; values: number[] }>, toValue: (values: number[]) => number) {
+  return Array.from(groups.values())
+    .map(group => ({ label: group.label, value: toValue(group.values) }))
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Aggregates recordings made on or after `from` into the numbers behind the
+ * Insights tab. Weeks (or months) without calls are included so trends stay
+ * to scale.
+ */
+export function buildInsights(recordings: Recording[], from: number | null, now = Date.now()): Insights {
+  const inRange = recordings.filter(recording => from === null || recording.timestamp >= from);
+  const scored = inRange
+    .map(recording => ({ recording, score: getCallScore(getRecordingAnalysis(recording)) }))
+    .filter((item): item is { recording: Recording; score: number } => item.score !== null);
+
+  const firstTimestamp = Math.min(from ?? Infinity, ...inRange.map(recording => recording.timestamp));
+  const firstWeek = getWeekStart(Number.isFinite(firstTimestamp) ? firstTimestamp : now);
+  const grouping: TrendGrouping = firstWeek < addWeeks(getWeekStart(now), -(MAX_WEEKS - 1)) ? 'month' : 'week';
+  const [getPeriodStart, addPeriods] = grouping === 'week' ? [getWeekStart, addWeeks] : [getMonthStart, addMonths];
+  const lastPeriod = getPeriodStart(now);
+
+  const periods: PeriodStat[] = [];
+  for (let start = getPeriodStart(firstWeek); start <= lastPeriod; start = addPeriods(start, 1)) {
+    const end = addPeriods(start, 1);
+    const isInPeriod = (timestamp: number) => timestamp >= start && timestamp < end;
+    const periodScores = scored.filter(item => isInPeriod(item.recording.timestamp)).map(item => item.score);
+    const periodAverage = average(periodScores);
+    periods.push({
+      start,
+      calls: inRange.filter(recording => isInPeriod(recording.timestamp)).length,
+      averageScore: periodAverage === null ? null : Math.round(periodAverage),
+    });
+  }
+
+  const objections = new Map<string, { label: string; values: number[] }>();
+  const rubricAreas = new Map<string, { label: string; values: number[] }>();
+  inRange.forEach(recording => {
+    const analysis = getRecordingAnalysis(recording);
+    analysis?.objections.forEach(objection => {
+      const key = normalizeObjection(objection);
+      if (!key) return;
+      const group = objections.get(key) ?? { label: objection, values: [] };
+      group.values.push(1);
+      objections.set(key, group);
+    });
+    analysis?.rubricScores?.forEach(item => {
+      const key = item.name.toLowerCase();
+      const group = rubricAreas.get(key) ?? { label: item.name, values: [] };
+      group.values.push(item.score);
+      rubricAreas.set(key, group);
+    });
+  });
+
+  const averageScore = average(scored.map(item => item.score));
+  return {
+    totalCalls: inRange.length,
+    analyzedCalls: inRange.filter(recording => !!recording.analysis).length,
+    averageScore: averageScore === null ? null : Math.round(averageScore),
+    averageDuration: average(inRange.map(recording => recording.duration)) ?? 0,
+    grouping,
+    periods,
+    topObjections: rank(objections, values => values.length).slice(0, TOP_OBJECTIONS),
+    rubricAreas: rank(rubricAreas, values => Math.round(average(values) ?? 0)),
+    conversation: aggregateConversationMetrics(
+      inRange.map(getRecordingMetrics).filter((metrics): metrics is ConversationMetrics => metrics !== null)
+    ),
+  };
+}
@@ -0,0 +1,98 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Recording } from '../app/types/recording';
+
+const LANGUAGE_SETTINGS_KEY = '@languageSettings';
+
+// Lets the server work out the spoken language itself
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+// ISO 639-1 codes the server accepts, with the expo-speech voice used for each
+export const LANGUAGES: { code: string; label: string; speechLanguage: string }[] = [
+  { code: 'en', label: 'English', speechLanguage: 'en-US' },
+  { code: 'es', label: 'Spanish', speechLanguage: 'es-ES' },
+  { code: 'pt', label: 'Portuguese', speechLanguage: 'pt-BR' },
+  { code: 'de', label: 'German', speechLanguage: 'de-DE' },
+  { code: 'fr', label: 'French', speechLanguage: 'fr-FR' },
+  { code: 'it', label: 'Italian', speechLanguage: 'it-IT' },
+  { code: 'nl', label: 'Dutch', speechLanguage: 'nl-NL' },
+];
+
+export interface LanguageSettings {
+  // Used for recordings without their own language; AUTO_DETECT_LANGUAGE or a code
+  defaultLanguage: string;
+  // Ask for the analysis in the device language whatever was spoken
+  translateAnalysis: boolean;
+}
+
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = {
+  defaultLanguage: AUTO_DETECT_LANGUAGE,
+  translateAnalysis: false,
+};
+
+let languageSettings = DEFAULT_LANGUAGE_SETTINGS;
+const listeners = new Set<(settings: LanguageSettings) => void>();
+
+export function getLanguageSettings() {
+  return languageSettings;
+}
+
+export async function loadLanguageSettings() {
+  try {
+    const storedSettings = await AsyncStorage.getItem(LANGUAGE_SETTINGS_KEY);
+    if (storedSettings) {
+      languageSettings = { ...DEFAULT_LANGUAGE_SETTINGS, ...JSON.parse(storedSettings) };
+      listeners.forEach(listener => listener(languageSettings));
+    }
+  } catch (error) {
+    console.error('Error loading language settings:', error);
+  }
+  return languageSettings;
+}
+
+export async function setLanguageSettings(updates: Partial<LanguageSettings>) {
+  languageSettings = { ...languageSettings, ...updates };
+  listeners.forEach(listener => listener(languageSettings));
+  await AsyncStorage.setItem(LANGUAGE_SETTINGS_KEY, JSON.stringify(languageSettings));
+}
+
+export function subscribeToLanguageSettings(listener: (settings: LanguageSettings) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Base language of the device locale, e.g. "pt" for pt-BR. */
+export function getDeviceLanguage() {
+  return Intl.DateTimeFormat().resolvedOptions().locale.split('-')[0].toLowerCase();
+}
+
+export function getLanguageLabel(code: string) {
+  if (code === AUTO_DETECT_LANGUAGE) return 'Auto-detect';
+  return LANGUAGES.find(language => language.code === code)?.label ?? code.toUpperCase();
+}
+
+/** Voice language for expo-speech; unknown codes are passed through as-is. */
+export function getSpeechLanguage(code?: string) {
+  if (!code) return 'en-US';
+  return LANGUAGES.find(language => language.code === code)?.speechLanguage ?? code;
+}
+
+/**
+ * What to send with an analysis request: the spoken language, unless it
+ * should be detected, and the language to write the analysis in.
+ */
+export function getLanguageRequest(recording: Pick<Recording, 'language'>, settings = languageSettings) {
+  const language = recording.language ?? settings.defaultLanguage;
+  return {
+    language: language === AUTO_DETECT_LANGUAGE ? undefined : language,
+    translateTo: settings.translateAnalysis ? getDeviceLanguage() : undefined,
+  };
+}
+
+/** The language the stored analysis is written in, as far as it is known. */
+export function getAnalysisLanguage(recording: Pick<Recording, 'language' | 'detectedLanguage' | 'analysisLanguage'>) {
+  if (recording.analysisLanguage) return recording.analysisLanguage;
+  if (recording.detectedLanguage) return recording.detectedLanguage;
+  return recording.language !== AUTO_DETECT_LANGUAGE ? recording.language : undefined;
+}
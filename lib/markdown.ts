@@ -0,0 +1,132 @@
+// A small markdown subset covering what the analysis server produces:
+// headings, paragraphs, bullet/numbered lists, and bold/italic/code spans.
+
+export type MarkdownInline = {
+  type: 'text' | 'bold' | 'italic' | 'code';
+  text: string;
+};
+
+export type MarkdownListItem = {
+  marker: string;
+  content: MarkdownInline[];
+};
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: MarkdownInline[] }
+  | { type: 'paragraph'; content: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownListItem[] };
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*$/;
+const BULLET_PATTERN = /^\s*[-*+•]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*(\d+)[.)]\s+(.*)$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const INLINE_PATTERN = /\*\*\*(.+?)\*\*\*|\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)(.+?)\*|`([^`]+)`/g;
+
+export function parseInline(text: string): MarkdownInline[] {
+  const spans: MarkdownInline[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      spans.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+
+    const [, boldItalic, bold, underscoreBold, italic, code] = match;
+    if (code !== undefined) {
+      spans.push({ type: 'code', text: code });
+    } else if (italic !== undefined) {
+      spans.push({ type: 'italic', text: italic });
+    } else {
+      spans.push({ type: 'bold', text: boldItalic ?? bold ?? underscoreBold });
+    }
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    spans.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return spans;
+}
+
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraphLines: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraphLines.length > 0) {
+      blocks.push({ type: 'paragraph', content: parseInline(paragraphLines.join(' ')) });
+      paragraphLines = [];
+    }
+  };
+
+  const addListItem = (ordered: boolean, marker: string, text: string) => {
+    const previous = blocks[blocks.length - 1];
+    const item = { marker, content: parseInline(text) };
+    if (previous?.type === 'list' && previous.ordered === ordered) {
+      previous.items.push(item);
+    } else {
+      blocks.push({ type: 'list', ordered, items: [item] });
+    }
+  };
+
+  for (const rawLine of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    const line = rawLine.trimEnd();
+
+    if (!line.trim() || RULE_PATTERN.test(line) || line.trim().startsWith('```')) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    if (bullet) {
+      flushParagraph();
+      addListItem(false, '•', bullet[1]);
+      continue;
+    }
+
+    const ordered = line.match(ORDERED_PATTERN);
+    if (ordered) {
+      flushParagraph();
+      addListItem(true, `${ordered[1]}.`, ordered[2]);
+      continue;
+    }
+
+    paragraphLines.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+export function inlineToText(content: MarkdownInline[]) {
+  return content.map(span => span.text).join('').trim();
+}
+
+function endSentence(text: string) {
+  return /[.!?:;]$/.test(text) ? text : `${text}.`;
+}
+
+/**
+ * Strips markdown down to speakable text: headings and list items become
+ * their own sentences so text-to-speech pauses between them.
+ */
+export function markdownToPlainText(markdown: string) {
+  return parseMarkdown(markdown)
+    .flatMap(block => {
+      if (block.type === 'list') {
+        return block.items.map(item => inlineToText(item.content));
+      }
+      return [inlineToText(block.content)];
+    })
+    .filter(Boolean)
+    .map(endSentence)
+    .join(' ');
+}
@@ -0,0 +1,235 @@
+import { SALES_CALL_ANALYSIS_VERSION, SalesCallAnalysis } from '../app/types/analysis';
+import { ChatMessage } from '../app/types/chat';
+import { Recording } from '../app/types/recording';
+import { TranscriptSegment } from '../app/types/transcript';
+import {
+  AnalysisError,
+  AnalysisErrorCode,
+  AnalysisProgress,
+  AnalysisResponse,
+  AnalyzeOptions,
+  ChatContext,
+  ChatOptions,
+} from './analysisClient';
+import type { AnalysisProvider } from './analysisProvider';
+import { toAnalysisText } from './salesCallAnalysis';
+
+export interface MockProviderOptions {
+  // Total simulated time for one analysis, spread across its stages
+  latencyMs: number;
+  // Fail every Nth request; 0 never fails
+  failEvery: number;
+  failureCode: AnalysisErrorCode;
+}
+
+interface CannedCall {
+  segments: TranscriptSegment[];
+  analysis: Omit<SalesCallAnalysis, 'version' | 'rubricScores'>;
+}
+
+const CANNED_CALLS: CannedCall[] = [
+  {
+    segments: [
+      { start: 0, end: 4.2, speaker: 'Rep', text: 'Thanks for taking the time today.' },
+      { start: 4.2, end: 7.8, speaker: 'Rep', text: 'What does your current process look like?' },
+      { start: 7.8, end: 14.1, speaker: 'Prospect', text: 'Mostly spreadsheets, and honestly the price is higher than we budgeted.' },
+      { start: 14.1, end: 18, speaker: 'Rep', text: 'Understood. Could we set up a demo with your team next week?' },
+      { start: 18, end: 20.5, speaker: 'Prospect', text: 'Sure, Tuesday works.' },
+    ],
+    analysis: {
+      overallScore: 72,
+      sentiment: 'neutral',
+      summary: 'A short discovery call where pricing came up early.',
+      objections: ['Price is above budget'],
+      questionsAsked: ['What does your current process look like?'],
+      nextSteps: ['Team demo on Tuesday'],
+      risks: ['Budget has not been confirmed'],
+      strengths: ['Opened with an open-ended question'],
+      improvementTips: ['Quantify value before discussing price'],
+    },
+  },
+  {
+    segments: [
+      { start: 0, end: 5.5, speaker: 'Rep', text: 'Last time you mentioned onboarding was slow. Has that changed?' },
+      { start: 5.5, end: 12, speaker: 'Prospect', text: 'Not really, um, we still lose about a week per new hire.' },
+      { start: 12, end: 17.4, speaker: 'Rep', text: 'Our customers usually cut that to two days. Who else would sign off on a change?' },
+      { start: 17.4, end: 23, speaker: 'Prospect', text: 'Our CFO. She will want to compare you with Acme first.' },
+      { start: 23, end: 27.2, speaker: 'Rep', text: 'Happy to send a comparison sheet before Friday.' },
+    ],
+    analysis: {
+      overallScore: 84,
+      sentiment: 'positive',
+      summary: 'A follow-up call that tied onboarding pain to a clear outcome and surfaced the economic buyer.',
+      objections: ['Wants to compare with a competitor first'],
+      questionsAsked: ['Has onboarding changed?', 'Who else would sign off on a change?'],
+      nextSteps: ['Send a competitor comparison sheet by Friday'],
+      risks: ['CFO has not been engaged directly'],
+      strengths: ['Quantified the impact of the current process', 'Identified the economic buyer'],
+      improvementTips: ['Ask for a meeting with the CFO'],
+    },
+  },
+  {
+    segments: [
+      { start: 0, end: 6, speaker: 'Rep', text: 'So basically our platform does everything you need and more.' },
+      { start: 6, end: 14.5, speaker: 'Rep', text: 'It has reporting, integrations, and, you know, a really great mobile app.' },
+      { start: 14.5, end: 17, speaker: 'Prospect', text: 'We are locked into a contract until next year.' },
+      { start: 17, end: 21, speaker: 'Rep', text: 'I can send you some material in the meantime.' },
+    ],
+    analysis: {
+      overallScore: 41,
+      sentiment: 'negative',
+      summary: 'A pitch-heavy call that stalled on an existing contract.',
+      objections: ['Locked into a contract until next year'],
+      questionsAsked: [],
+      nextSteps: ['Send product material'],
+      risks: ['No timeline or champion identified', 'Prospect did most of the listening'],
+      strengths: ['Covered the main product areas'],
+      improvementTips: ['Ask about their goals before pitching', 'Find out when the current contract renews'],
+    },
+  },
+];
+
+// Analyses and questions, counted across provider instances so changing
+// settings doesn't reset the failure cadence
+let analysisCount = 0;
+
+function hashString(value: string) {
+  let hash = 0;
+  for (let index = 0; index < value.length; index++) {
+    hash = (hash * 31 + value.charCodeAt(index)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AnalysisError('aborted', 'Request was cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new AnalysisError('aborted', 'Request was cancelled'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+function createFailure(code: AnalysisErrorCode) {
+  switch (code) {
+    case 'server':
+      return new AnalysisError('server', 'Mock server error', 500);
+    case 'timeout':
+      return new AnalysisError('timeout', 'Mock request timed out');
+    case 'unauthenticated':
+      return new AnalysisError('unauthenticated', 'Mock session expired', 401);
+    case 'invalid_response':
+      return new AnalysisError('invalid_response', 'Mock server returned an empty analysis');
+    default:
+      return new AnalysisError(code, `Mock ${code} failure`);
+  }
+}
+
+function buildAnalysis(call: CannedCall, seed: number, options: AnalyzeOptions): SalesCallAnalysis {
+  const rubricScores = options.rubric?.length
+    ? options.rubric.map(criterion => ({
+        criterionId: criterion.id,
+        name: criterion.name,
+        // Stable per recording and criterion so re-analysis gives the same scorecard
+        score: 30 + (hashString(`${seed}:${criterion.name}`) % 70),
+        weight: criterion.weight,
+        rationale: `Mock rationale for ${criterion.name}.`,
+      }))
+    : undefined;
+
+  return { version: SALES_CALL_ANALYSIS_VERSION, ...call.analysis, rubricScores };
+}
+
+// Words too common to say anything about what the question is after
+const STOP_WORDS = new Set([
+  'a', 'about', 'and', 'are', 'did', 'do', 'does', 'for', 'have', 'how', 'i', 'in', 'is', 'it', 'of',
+  'on', 'say', 'should', 'that', 'the', 'they', 'to', 'was', 'we', 'what', 'when', 'who', 'why', 'you',
+]);
+
+// Quotes the transcript lines that share words with the question
+function buildMockAnswer(recording: ChatContext, question: string) {
+  const keywords = question
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+  const lines = recording.transcriptSegments?.length
+    ? recording.transcriptSegments.map(segment => (segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text))
+    : (recording.transcript ?? '').split(/(?<=[.!?])\s+/);
+  const matches = lines.filter(line => keywords.some(word => line.toLowerCase().includes(word)));
+
+  if (matches.length === 0) {
+    return `The call doesn't seem to cover that. (Mock answer to "${question}")`;
+  }
+  return `Here is what came up in the call:\n\n${matches.map(line => `- ${line}`).join('\n')}`;
+}
+
+/**
+ * A stand-in backend that needs no network. Each recording gets one of a few
+ * canned calls, picked from its URI so results are the same every run, and
+ * progress is reported through the same stages as the real server.
+ */
+export function createMockAnalysisProvider(mockOptions: MockProviderOptions): AnalysisProvider {
+  const stageDelay = Math.max(0, mockOptions.latencyMs) / 4;
+
+  return {
+    id: 'mock',
+
+    analyzeRecording: async (recording: Pick<Recording, 'uri'>, options: AnalyzeOptions): Promise<AnalysisResponse> => {
+      analysisCount += 1;
+      const shouldFail = mockOptions.failEvery > 0 && analysisCount % mockOptions.failEvery === 0;
+      const seed = hashString(recording.uri);
+      const call = CANNED_CALLS[seed % CANNED_CALLS.length];
+      const transcription = call.segments.map(segment => segment.text).join(' ');
+      const structuredAnalysis = buildAnalysis(call, seed, options);
+      const report = (progress: AnalysisProgress) => options.onProgress?.(progress);
+
+      report({ stage: 'uploading', uploadProgress: 0 });
+      await sleep(stageDelay, options.signal);
+      report({ stage: 'uploading', uploadProgress: 1 });
+      await sleep(stageDelay, options.signal);
+      if (shouldFail) {
+        throw createFailure(mockOptions.failureCode);
+      }
+
+      report({ stage: 'transcribing', uploadProgress: 1 });
+      await sleep(stageDelay, options.signal);
+      report({ stage: 'analyzing', transcription, segments: call.segments });
+      await sleep(stageDelay, options.signal);
+      report({ stage: 'analyzing', transcription, segments: call.segments, partialAnalysis: structuredAnalysis });
+
+      return {
+        transcription,
+        analysis: toAnalysisText(structuredAnalysis),
+        structuredAnalysis,
+        segments: call.segments,
+        // The canned calls and their results are always in English, whatever was asked for
+        language: 'en',
+        analysisLanguage: 'en',
+      };
+    },
+
+    askQuestion: async (recording: ChatContext, question: string, _history: ChatMessage[], options: ChatOptions) => {
+      analysisCount += 1;
+      await sleep(stageDelay, options.signal);
+      if (mockOptions.failEvery > 0 && analysisCount % mockOptions.failEvery === 0) {
+        throw createFailure(mockOptions.failureCode);
+      }
+      return buildMockAnswer(recording, question);
+    },
+
+    checkHealth: async () => {
+      const startedAt = Date.now();
+      await sleep(Math.min(stageDelay, 500));
+      return { serverUrl: 'mock://local', latencyMs: Date.now() - startedAt, status: 'ok', version: 'mock' };
+    },
+  };
+}
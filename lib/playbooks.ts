@@ -0,0 +1,77 @@
+import { Playbook, PlaybookId, PlaybookRequest, PreviousAnalysis } from '../app/types/playbook';
+import { Recording } from '../app/types/recording';
+
+export const PLAYBOOKS: Playbook[] = [
+  {
+    id: 'discovery',
+    name: 'Discovery',
+    description: 'Uncovering needs, pain points and decision process',
+  },
+  {
+    id: 'demo',
+    name: 'Demo',
+    description: 'Tying the product walkthrough to what the buyer cares about',
+  },
+  {
+    id: 'negotiation',
+    name: 'Negotiation',
+    description: 'Handling pricing, terms and concessions',
+  },
+  {
+    id: 'renewal',
+    name: 'Renewal',
+    description: 'Confirming value delivered and spotting churn or expansion signals',
+  },
+  {
+    id: 'cold_call',
+    name: 'Cold Call',
+    description: 'Opening, earning attention and booking a next meeting',
+  },
+  {
+    id: 'custom',
+    name: 'Custom',
+    description: 'Your own instructions for what to focus on',
+  },
+];
+
+export const DEFAULT_PLAYBOOK_ID: PlaybookId = 'discovery';
+
+const MAX_PREVIOUS_ANALYSES = 10;
+
+export function getPlaybook(id: PlaybookId) {
+  return PLAYBOOKS.find(playbook => playbook.id === id) ?? PLAYBOOKS[0];
+}
+
+// Results from before playbooks existed were judged generically
+export function getPlaybookName(id: PlaybookId | undefined) {
+  return id ? getPlaybook(id).name : 'General';
+}
+
+export function getPlaybookRequest(
+  recording: Pick<Recording, 'playbookId' | 'customPlaybookInstructions'>
+): PlaybookRequest {
+  const id = recording.playbookId ?? DEFAULT_PLAYBOOK_ID;
+  const instructions = recording.customPlaybookInstructions?.trim();
+  return id === 'custom' && instructions ? { id, instructions } : { id };
+}
+
+/**
+ * Moves the recording's current analysis to the front of its previous
+ * results so a re-analysis doesn't discard it.
+ */
+export function archiveCurrentAnalysis(
+  recording: Pick<
+    Recording,
+    'analysis' | 'structuredAnalysis' | 'analyzedAt' | 'analysisPlaybookId' | 'previousAnalyses'
+  >
+): PreviousAnalysis[] | undefined {
+  if (!recording.analysis) return recording.previousAnalyses;
+
+  const current: PreviousAnalysis = {
+    playbookId: recording.analysisPlaybookId,
+    analysis: recording.analysis,
+    structuredAnalysis: recording.structuredAnalysis,
+    analyzedAt: recording.analyzedAt,
+  };
+  return [current, ...(recording.previousAnalyses ?? [])].slice(0, MAX_PREVIOUS_ANALYSES);
+}
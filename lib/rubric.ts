@@ -0,0 +1,56 @@
+import { CriterionScore, SalesCallAnalysis } from '../app/types/analysis';
+import { RubricCriterion } from '../app/types/rubric';
+
+export const MIN_CRITERION_WEIGHT = 1;
+export const MAX_CRITERION_WEIGHT = 10;
+
+export const MEDDICC_TEMPLATE: Omit<RubricCriterion, 'id'>[] = [
+  { name: 'Metrics', description: 'Quantified the economic impact the buyer expects', weight: 3 },
+  { name: 'Economic Buyer', description: 'Identified who controls the budget and engaged them', weight: 3 },
+  { name: 'Decision Criteria', description: 'Learned how the buyer will judge competing solutions', weight: 2 },
+  { name: 'Decision Process', description: 'Mapped the steps, people and timeline to a decision', weight: 2 },
+  { name: 'Identify Pain', description: 'Uncovered a business pain worth solving now', weight: 3 },
+  { name: 'Champion', description: 'Found and tested an internal advocate', weight: 2 },
+  { name: 'Competition', description: 'Surfaced alternatives the buyer is considering', weight: 1 },
+];
+
+export function createCriterion(values: Partial<Omit<RubricCriterion, 'id'>> = {}): RubricCriterion {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: '',
+    description: '',
+    weight: MIN_CRITERION_WEIGHT,
+    ...values,
+  };
+}
+
+export function getWeightedScore(scores: CriterionScore[]) {
+  const totalWeight = scores.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight <= 0) return null;
+  return Math.round(scores.reduce((sum, item) => sum + item.score * item.weight, 0) / totalWeight);
+}
+
+/** The call's score: the overall score, or the weighted rubric score when there is none. */
+export function getCallScore(analysis: SalesCallAnalysis | null) {
+  if (!analysis) return null;
+  if (analysis.overallScore !== null) return analysis.overallScore;
+  return analysis.rubricScores ? getWeightedScore(analysis.rubricScores) : null;
+}
+
+/**
+ * Stamps each criterion score with the weight from the rubric that was sent,
+ * matching by id and falling back to the criterion name.
+ */
+export function applyRubricWeights(analysis: SalesCallAnalysis, criteria: RubricCriterion[]): SalesCallAnalysis {
+  if (!analysis.rubricScores || criteria.length === 0) return analysis;
+
+  return {
+    ...analysis,
+    rubricScores: analysis.rubricScores.map(item => {
+      const criterion =
+        criteria.find(candidate => candidate.id === item.criterionId) ??
+        criteria.find(candidate => candidate.name.toLowerCase() === item.name.toLowerCase());
+      return criterion ? { ...item, criterionId: criterion.id, weight: criterion.weight } : item;
+    }),
+  };
+}
@@ -0,0 +1,187 @@
+import {
+  CallSentiment,
+  CriterionScore,
+  SALES_CALL_ANALYSIS_VERSION,
+  SalesCallAnalysis,
+} from '../app/types/analysis';
+import { Recording } from '../app/types/recording';
+
+export type AnalysisListKey =
+  | 'objections'
+  | 'questionsAsked'
+  | 'nextSteps'
+  | 'risks'
+  | 'strengths'
+  | 'improvementTips';
+
+const SENTIMENTS: CallSentiment[] = ['positive', 'neutral', 'negative', 'mixed'];
+
+export const ANALYSIS_SECTIONS: { key: AnalysisListKey; title: string }[] = [
+  { key: 'strengths', title: 'Strengths' },
+  { key: 'objections', title: 'Objections Raised' },
+  { key: 'questionsAsked', title: 'Questions Asked' },
+  { key: 'risks', title: 'Risks' },
+  { key: 'nextSteps', title: 'Next Steps' },
+  { key: 'improvementTips', title: 'Improvement Tips' },
+];
+
+// The backend is Python, so accept its snake_case names as well
+const FIELD_ALIASES: Record<AnalysisListKey | 'overallScore' | 'rubricScores', string[]> = {
+  overallScore: ['overallScore', 'overall_score', 'score'],
+  rubricScores: ['rubricScores', 'rubric_scores', 'criteria_scores'],
+  objections: ['objections', 'objections_raised', 'objectionsRaised'],
+  questionsAsked: ['questionsAsked', 'questions_asked', 'questions'],
+  nextSteps: ['nextSteps', 'next_steps'],
+  risks: ['risks'],
+  strengths: ['strengths'],
+  improvementTips: ['improvementTips', 'improvement_tips', 'tips'],
+};
+
+function pick(data: Record<string, unknown>, key: keyof typeof FIELD_ALIASES) {
+  const alias = FIELD_ALIASES[key].find(name => data[name] !== undefined);
+  return alias ? data[alias] : undefined;
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(item => (typeof item === 'string' ? item : typeof item?.text === 'string' ? item.text : null))
+    .filter((item): item is string => !!item && !!item.trim())
+    .map(item => item.trim());
+}
+
+function toScore(value: unknown) {
+  const score = typeof value === 'string' ? Number(value) : value;
+  if (typeof score !== 'number' || !Number.isFinite(score)) return null;
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+function toCriterionScores(value: unknown): CriterionScore[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item): CriterionScore | null => {
+      if (!item || typeof item !== 'object') return null;
+      const name = typeof item.name === 'string' ? item.name.trim() : '';
+      const score = toScore(item.score);
+      if (!name || score === null) return null;
+
+      const criterionId = item.criterionId ?? item.criterion_id ?? item.id;
+      const weight = Number(item.weight);
+      const rationale = item.rationale ?? item.reason;
+      return {
+        ...(typeof criterionId === 'string' ? { criterionId } : {}),
+        name,
+        score,
+        weight: Number.isFinite(weight) && weight > 0 ? weight : 1,
+        ...(typeof rationale === 'string' && rationale.trim() ? { rationale: rationale.trim() } : {}),
+      };
+    })
+    .filter((item): item is CriterionScore => item !== null);
+}
+
+function toSentiment(value: unknown): CallSentiment | null {
+  if (typeof value !== 'string') return null;
+  const sentiment = value.toLowerCase() as CallSentiment;
+  return SENTIMENTS.includes(sentiment) ? sentiment : null;
+}
+
+/**
+ * Wraps a free-text analysis (the original response format) so it can be
+ * rendered through the same structured view.
+ */
+export function fromAnalysisText(text: string): SalesCallAnalysis {
+  return {
+    version: SALES_CALL_ANALYSIS_VERSION,
+    overallScore: null,
+    sentiment: null,
+    summary: text.trim(),
+    objections: [],
+    questionsAsked: [],
+    nextSteps: [],
+    risks: [],
+    strengths: [],
+    improvementTips: [],
+  };
+}
+
+/**
+ * Validates an analysis payload from the server. Returns null when the value
+ * is neither a structured analysis nor a non-empty plain-text one.
+ */
+export function parseSalesCallAnalysis(value: unknown): SalesCallAnalysis | null {
+  if (typeof value === 'string') {
+    return value.trim() ? fromAnalysisText(value) : null;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const data = value as Record<string, unknown>;
+  if (data.version !== undefined && Number(data.version) > SALES_CALL_ANALYSIS_VERSION) {
+    console.warn(`Analysis version ${data.version} is newer than supported; reading known fields only`);
+  }
+
+  const analysis: SalesCallAnalysis = {
+    version: SALES_CALL_ANALYSIS_VERSION,
+    overallScore: toScore(pick(data, 'overallScore')),
+    sentiment: toSentiment(data.sentiment),
+    summary: typeof data.summary === 'string' ? data.summary.trim() : '',
+    objections: toStringList(pick(data, 'objections')),
+    questionsAsked: toStringList(pick(data, 'questionsAsked')),
+    nextSteps: toStringList(pick(data, 'nextSteps')),
+    risks: toStringList(pick(data, 'risks')),
+    strengths: toStringList(pick(data, 'strengths')),
+    improvementTips: toStringList(pick(data, 'improvementTips')),
+  };
+
+  const rubricScores = toCriterionScores(pick(data, 'rubricScores'));
+  if (rubricScores.length > 0) {
+    analysis.rubricScores = rubricScores;
+  }
+
+  const hasContent =
+    !!analysis.summary ||
+    analysis.overallScore !== null ||
+    rubricScores.length > 0 ||
+    ANALYSIS_SECTIONS.some(section => analysis[section.key].length > 0);
+  return hasContent ? analysis : null;
+}
+
+/**
+ * Flattens a structured analysis into readable text, used where a single
+ * string is needed (storage of `Recording.analysis`, reading aloud).
+ */
+export function toAnalysisText(analysis: SalesCallAnalysis) {
+  const parts: string[] = [];
+
+  if (analysis.overallScore !== null) {
+    parts.push(`Overall score: ${analysis.overallScore}/100`);
+  }
+  if (analysis.sentiment) {
+    parts.push(`Sentiment: ${analysis.sentiment}`);
+  }
+  if (analysis.summary) {
+    parts.push(analysis.summary);
+  }
+  if (analysis.rubricScores?.length) {
+    const rows = analysis.rubricScores.map(item => `- ${item.name}: ${item.score}/100`);
+    parts.push(`## Scorecard\n${rows.join('\n')}`);
+  }
+  ANALYSIS_SECTIONS.forEach(section => {
+    const items = analysis[section.key];
+    if (items.length > 0) {
+      parts.push(`## ${section.title}\n${items.map(item => `- ${item}`).join('\n')}`);
+    }
+  });
+
+  return parts.join('\n\n');
+}
+
+/**
+ * The structured analysis for a recording, falling back to the stored text
+ * for recordings analyzed before the server returned structured results.
+ */
+export function getRecordingAnalysis(recording: Pick<Recording, 'analysis' | 'structuredAnalysis'>) {
+  if (recording.structuredAnalysis) return recording.structuredAnalysis;
+  return recording.analysis ? fromAnalysisText(recording.analysis) : null;
+}
@@ -0,0 +1,78 @@
+import { Audio } from 'expo-av';
+import * as Speech from 'expo-speech';
+import { markdownToPlainText } from './markdown';
+
+const SPEAKER_AUDIO_MODE = {
+  allowsRecordingIOS: false,
+  playsInSilentModeIOS: true,
+  staysActiveInBackground: false,
+  shouldDuckAndroid: true,
+  playThroughEarpieceAndroid: false,
+  interruptionModeAndroid: 1,
+  interruptionModeIOS: 1,
+};
+
+const RECORDING_AUDIO_MODE = {
+  allowsRecordingIOS: true,
+  playsInSilentModeIOS: true,
+  staysActiveInBackground: true,
+  shouldDuckAndroid: true,
+};
+
+export interface SpeakOptions {
+  language?: string;
+  // Called once speech finishes, is stopped, or fails
+  onFinish?: () => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Reads markdown text aloud through the loudspeaker rather than the earpiece,
+ * then puts the audio session back into recording mode.
+ */
+export async function speakAloud(text: string, options: SpeakOptions = {}) {
+  const restoreRecordingMode = () => {
+    Audio.setAudioModeAsync(RECORDING_AUDIO_MODE);
+  };
+
+  try {
+    // Setting the mode twice with pauses is what reliably routes speech to
+    // the speaker on iOS after recording
+    await Audio.setAudioModeAsync(SPEAKER_AUDIO_MODE);
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await Audio.setAudioModeAsync(SPEAKER_AUDIO_MODE);
+    await new Promise(resolve => setTimeout(resolve, 200));
+  } catch (audioError) {
+    console.log('Audio mode setting failed:', audioError);
+  }
+
+  try {
+    Speech.speak(markdownToPlainText(text), {
+      language: options.language ?? 'en-US',
+      pitch: 1.0,
+      rate: 0.8,
+      onDone: () => {
+        restoreRecordingMode();
+        options.onFinish?.();
+      },
+      onStopped: () => {
+        restoreRecordingMode();
+        options.onFinish?.();
+      },
+      onError: (error) => {
+        console.error('Speech error:', error);
+        restoreRecordingMode();
+        options.onFinish?.();
+        options.onError?.(error);
+      },
+    });
+  } catch (speechError) {
+    console.error('Speech failed:', speechError);
+    options.onFinish?.();
+    options.onError?.(speechError);
+  }
+}
+
+export function stopSpeaking() {
+  Speech.stop();
+}
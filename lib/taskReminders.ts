@@ -0,0 +1,109 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { Task } from '../app/types/task';
+
+const REMINDER_CHANNEL_ID = 'task-reminders';
+
+// Show reminders as banners even while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+const REMINDER_ID_PREFIX = 'task-';
+
+async function ensureReminderChannel() {
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+      name: 'Task reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+}
+
+/** Prompts for notification permission; only call this in response to the user. */
+export async function requestReminderPermission() {
+  await ensureReminderChannel();
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+// Syncs run one after another so an older task list can never be scheduled
+// on top of a newer one
+let pendingSync: Promise<void> = Promise.resolve();
+
+/**
+ * Schedules one reminder per open task that is due in the future, under a
+ * stable `task-<id>` identifier, and cancels reminders for tasks that no
+ * longer need one. Never prompts for permission; without it nothing is
+ * scheduled.
+ */
+export function syncTaskReminders(
+  tasks: Task[],
+  enabled: boolean,
+  getRecordingTitle: (recordingId: string) => string | undefined
+) {
+  const sync = pendingSync.then(() => scheduleTaskReminders(tasks, enabled, getRecordingTitle));
+  pendingSync = sync.catch(() => {});
+  return sync;
+}
+
+async function scheduleTaskReminders(
+  tasks: Task[],
+  enabled: boolean,
+  getRecordingTitle: (recordingId: string) => string | undefined
+) {
+  const now = Date.now();
+  const dueTasks = enabled
+    ? tasks.filter(task => task.status === 'open' && task.dueAt !== undefined && task.dueAt > now)
+    : [];
+  const dueIds = new Set(dueTasks.map(task => `${REMINDER_ID_PREFIX}${task.id}`));
+
+  // Cancel any task reminder whose task is no longer due
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(request => request.content.data?.taskId !== undefined && !dueIds.has(request.identifier))
+      .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+
+  if (dueTasks.length === 0 || !(await Notifications.getPermissionsAsync()).granted) return;
+  await ensureReminderChannel();
+
+  // Scheduling under an existing identifier replaces that reminder
+  await Promise.all(
+    dueTasks.map(task => {
+      const recordingTitle = getRecordingTitle(task.recordingId);
+      return Notifications.scheduleNotificationAsync({
+        identifier: `${REMINDER_ID_PREFIX}${task.id}`,
+        content: {
+          title: 'Action item due',
+          body: recordingTitle ? `${task.title} · ${recordingTitle}` : task.title,
+          data: { taskId: task.id, recordingId: task.recordingId },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: task.dueAt!,
+          channelId: REMINDER_CHANNEL_ID,
+        },
+      });
+    })
+  );
+}
+
+/** Calls `onOpen` with the task's recording when a reminder is tapped. */
+export function addReminderResponseListener(onOpen: (recordingId: string) => void) {
+  const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+    const recordingId = response.notification.request.content.data?.recordingId;
+    if (typeof recordingId === 'string') onOpen(recordingId);
+  });
+  return () => subscription.remove();
+}
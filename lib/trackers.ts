@@ -0,0 +1,135 @@
+import { Recording } from '../app/types/recording';
+import { Tracker, TrackerCategory } from '../app/types/tracker';
+import { TranscriptSegment } from '../app/types/transcript';
+
+export const TRACKER_CATEGORIES: { key: TrackerCategory; label: string; color: string }[] = [
+  { key: 'competitor', label: 'Competitor', color: '#f44336' },
+  { key: 'pricing', label: 'Pricing', color: '#ff9800' },
+  { key: 'product', label: 'Product', color: '#4a7eb7' },
+  { key: 'other', label: 'Other', color: '#9e9e9e' },
+];
+
+// Characters of context kept on each side of a mention in snippets
+const SNIPPET_CONTEXT = 40;
+
+export interface TrackerMention {
+  term: string;
+  // The segment the mention appears in; times are absent for untimed transcripts
+  text: string;
+  // Offset of the term within `text`
+  index: number;
+  start?: number;
+  end?: number;
+}
+
+export interface TrackerHit {
+  tracker: Tracker;
+  count: number;
+  mentions: TrackerMention[];
+}
+
+export interface TrackerReportEntry {
+  tracker: Tracker;
+  totalMentions: number;
+  // Most mentions first
+  recordings: { recording: Recording; count: number }[];
+}
+
+export function getTrackerCategory(category: TrackerCategory) {
+  return TRACKER_CATEGORIES.find(item => item.key === category) ?? TRACKER_CATEGORIES[3];
+}
+
+export function createTrackerId() {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getTrackerTerms(tracker: Pick<Tracker, 'name' | 'synonyms'>) {
+  const terms = [tracker.name, ...tracker.synonyms].map(term => term.trim()).filter(Boolean);
+  return Array.from(new Set(terms.map(term => term.toLowerCase()))).map(
+    lowered => terms.find(term => term.toLowerCase() === lowered)!
+  );
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A case-insensitive pattern matching any of the tracker's terms as whole
+ * words. Terms that start or end in punctuation (e.g. "C++") skip the word
+ * boundary on that side. Longer terms are tried first so "Gong.io" wins over
+ * "Gong".
+ */
+export function buildTrackerPattern(tracker: Pick<Tracker, 'name' | 'synonyms'>) {
+  const terms = getTrackerTerms(tracker).sort((a, b) => b.length - a.length);
+  if (terms.length === 0) return null;
+
+  const alternatives = terms.map(term => {
+    const prefix = /^\w/.test(term) ? '\\b' : '';
+    const suffix = /\w$/.test(term) ? '\\b' : '';
+    return `${prefix}${escapeRegExp(term).replace(/\s+/g, '\\s+')}${suffix}`;
+  });
+  return new RegExp(alternatives.join('|'), 'gi');
+}
+
+export function findTrackerMentions(
+  tracker: Tracker,
+  transcript: string | undefined,
+  segments: TranscriptSegment[] | undefined
+): TrackerMention[] {
+  const pattern = buildTrackerPattern(tracker);
+  if (!pattern) return [];
+
+  const matchText = (text: string, timing: Pick<TrackerMention, 'start' | 'end'>) =>
+    Array.from(text.matchAll(pattern)).map(match => ({ term: match[0], text, index: match.index ?? 0, ...timing }));
+
+  if (segments && segments.length > 0) {
+    return segments.flatMap(segment => matchText(segment.text, { start: segment.start, end: segment.end }));
+  }
+  return transcript ? matchText(transcript, {}) : [];
+}
+
+/** Splits the text around a mention so the term can be highlighted. */
+export function getMentionSnippet(mention: TrackerMention) {
+  const from = Math.max(0, mention.index - SNIPPET_CONTEXT);
+  const to = Math.min(mention.text.length, mention.index + mention.term.length + SNIPPET_CONTEXT);
+  return {
+    before: `${from > 0 ? '…' : ''}${mention.text.slice(from, mention.index)}`,
+    term: mention.term,
+    after: `${mention.text.slice(mention.index + mention.term.length, to)}${to < mention.text.length ? '…' : ''}`,
+  };
+}
+
+/** Trackers mentioned in the recording's transcript, most mentioned first. */
+export function getRecordingTrackerHits(
+  recording: Pick<Recording, 'transcript' | 'transcriptSegments'>,
+  trackers: Tracker[]
+): TrackerHit[] {
+  return trackers
+    .map(tracker => {
+      const mentions = findTrackerMentions(tracker, recording.transcript, recording.transcriptSegments);
+      return { tracker, count: mentions.length, mentions };
+    })
+    .filter(hit => hit.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+/** Which recordings mention each tracker, for the cross-call report. */
+export function buildTrackerReport(recordings: Recording[], trackers: Tracker[]): TrackerReportEntry[] {
+  return trackers
+    .map(tracker => {
+      const matches = recordings
+        .map(recording => ({
+          recording,
+          count: findTrackerMentions(tracker, recording.transcript, recording.transcriptSegments).length,
+        }))
+        .filter(item => item.count > 0)
+        .sort((a, b) => b.count - a.count);
+      return {
+        tracker,
+        totalMentions: matches.reduce((sum, item) => sum + item.count, 0),
+        recordings: matches,
+      };
+    })
+    .sort((a, b) => b.totalMentions - a.totalMentions);
+}
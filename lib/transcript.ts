@@ -0,0 +1,52 @@
+import { TranscriptSegment } from '../app/types/transcript';
+
+function toSeconds(value: unknown) {
+  const seconds = typeof value === 'string' ? Number(value) : value;
+  return typeof seconds === 'number' && Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+/**
+ * Validates transcript segments from the server. Accepts Whisper-style
+ * `start`/`end` as well as `start_time`/`end_time`; segments without usable
+ * times or text are dropped.
+ */
+export function parseTranscriptSegments(value: unknown): TranscriptSegment[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  const segments = value
+    .map((item): TranscriptSegment | null => {
+      if (!item || typeof item !== 'object') return null;
+      const start = toSeconds(item.start ?? item.start_time);
+      const end = toSeconds(item.end ?? item.end_time);
+      const text = typeof item.text === 'string' ? item.text.trim() : '';
+      if (start === null || end === null || !text) return null;
+
+      const speaker = item.speaker ?? item.speaker_label;
+      return {
+        start,
+        end: Math.max(start, end),
+        text,
+        ...(typeof speaker === 'string' && speaker.trim() ? { speaker: speaker.trim() } : {}),
+      };
+    })
+    .filter((segment): segment is TranscriptSegment => segment !== null)
+    .sort((a, b) => a.start - b.start);
+
+  return segments.length > 0 ? segments : undefined;
+}
+
+export function findSegmentIndexAt(segments: TranscriptSegment[], seconds: number) {
+  return segments.findIndex(
+    (segment, index) =>
+      seconds >= segment.start &&
+      (seconds < segment.end || (index === segments.length - 1 && seconds <= segment.end))
+  );
+}
+
+export function formatTimestamp(seconds: number) {
+  const totalSeconds = Math.floor(seconds);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
@@ -0,0 +1,205 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the analysis server, for exercising the app without the real backend.
+ * Implements /health, the chunked upload routes (/uploads), /analyze_sales_call and /chat with canned results.
+ *
+ * Usage: npm run mock-server -- [--port 8000] [--fail-every 3] [--delay 500]
+ *   --fail-every N  drops every Nth upload part mid-request to exercise resuming
+ *   --delay MS      pauses between streamed analysis messages
+ *
+ * Point the app at it from Profile > Server Connection (use your machine's LAN address on a device).
+ */
+
+const http = require("http");
+const crypto = require("crypto");
+
+const args = process.argv.slice(2);
+const readArg = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const port = readArg("port", Number(process.env.PORT) || 8000);
+const failEvery = readArg("fail-every", 0);
+const delayMs = readArg("delay", 300);
+
+// uploadId -> { size, chunks: Buffer[], receivedBytes, completed }
+const uploads = new Map();
+let partCount = 0;
+
+const transcription =
+  "Thanks for taking the time today. What does your current process look like? " +
+  "Honestly the price is higher than we budgeted. Let's set up a demo with your team next week.";
+
+const result = {
+  transcription,
+  language: "en",
+  segments: [
+    { start: 0, end: 4.2, speaker: "Rep", text: "Thanks for taking the time today." },
+    { start: 4.2, end: 7.8, speaker: "Rep", text: "What does your current process look like?" },
+    { start: 7.8, end: 12.5, speaker: "Prospect", text: "Honestly the price is higher than we budgeted." },
+    { start: 12.5, end: 16, speaker: "Rep", text: "Let's set up a demo with your team next week." },
+  ],
+  analysis: {
+    overall_score: 72,
+    sentiment: "neutral",
+    summary: "A short discovery call where pricing came up early.",
+    objections: ["Price is above budget"],
+    questions_asked: ["What does your current process look like?"],
+    next_steps: ["Schedule a team demo next week"],
+    risks: ["Budget has not been confirmed"],
+    strengths: ["Opened with an open-ended question"],
+    improvement_tips: ["Quantify value before discussing price"],
+  },
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+async function sendAnalysis(req, res) {
+  const accept = req.headers.accept || "";
+  if (!accept.includes("text/event-stream")) {
+    await sleep(delayMs);
+    sendJson(res, 200, result);
+    return;
+  }
+
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+  const send = async (type, data) => {
+    res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    await sleep(delayMs);
+  };
+
+  await send("stage", { stage: "transcribing" });
+  await send("transcript", { transcription: result.transcription, segments: result.segments });
+  await send("stage", { stage: "analyzing" });
+  await send("analysis", { analysis: { summary: result.analysis.summary, overall_score: result.analysis.overall_score } });
+  await send("analysis", { analysis: { objections: result.analysis.objections, next_steps: result.analysis.next_steps } });
+  await send("result", { result });
+  res.end();
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const parts = url.pathname.split("/").filter(Boolean);
+
+  if (req.method === "GET" && url.pathname === "/health") {
+    sendJson(res, 200, { status: "ok", version: "mock" });
+    return;
+  }
+
+  if (!/^Bearer \S+/.test(req.headers.authorization || "")) {
+    sendJson(res, 401, { detail: "Missing bearer token" });
+    return;
+  }
+
+  if (parts[0] === "uploads") {
+    const upload = parts[1] && uploads.get(parts[1]);
+
+    if (req.method === "POST" && parts.length === 1) {
+      const { size } = JSON.parse((await readBody(req)).toString() || "{}");
+      const uploadId = crypto.randomUUID();
+      uploads.set(uploadId, { size, chunks: [], receivedBytes: 0, completed: false });
+      console.log(`Upload ${uploadId} started (${size} bytes)`);
+      sendJson(res, 201, { upload_id: uploadId, received_bytes: 0 });
+      return;
+    }
+
+    if (!upload) {
+      sendJson(res, 404, { detail: "Unknown upload" });
+      return;
+    }
+
+    if (req.method === "GET" && parts.length === 2) {
+      sendJson(res, 200, { upload_id: parts[1], received_bytes: upload.receivedBytes });
+      return;
+    }
+
+    if (req.method === "PUT" && parts[2] === "parts") {
+      const offset = Number(url.searchParams.get("offset"));
+      partCount += 1;
+      if (failEvery > 0 && partCount % failEvery === 0) {
+        console.log(`Dropping part at offset ${offset}`);
+        req.socket.destroy();
+        return;
+      }
+      if (!(offset <= upload.receivedBytes)) {
+        sendJson(res, 409, { detail: "Offset is past the received data", received_bytes: upload.receivedBytes });
+        return;
+      }
+
+      const chunk = await readBody(req);
+      // A re-sent part replaces whatever followed its offset
+      const stored = Buffer.concat(upload.chunks).subarray(0, offset);
+      upload.chunks = [stored, chunk];
+      upload.receivedBytes = offset + chunk.length;
+      console.log(`Upload ${parts[1]}: ${upload.receivedBytes}/${upload.size} bytes`);
+      sendJson(res, 200, { received_bytes: upload.receivedBytes });
+      return;
+    }
+
+    if (req.method === "POST" && parts[2] === "complete") {
+      if (upload.receivedBytes < upload.size) {
+        sendJson(res, 400, { detail: "Upload is incomplete", received_bytes: upload.receivedBytes });
+        return;
+      }
+      upload.completed = true;
+      sendJson(res, 200, { upload_id: parts[1], size: upload.receivedBytes });
+      return;
+    }
+  }
+
+  if (req.method === "POST" && url.pathname === "/analyze_sales_call") {
+    const body = await readBody(req);
+    if ((req.headers["content-type"] || "").includes("application/json")) {
+      const { upload_id: uploadId } = JSON.parse(body.toString() || "{}");
+      if (!uploads.get(uploadId)?.completed) {
+        sendJson(res, 400, { detail: "Upload is missing or incomplete" });
+        return;
+      }
+    }
+    console.log(`Analyzing ${body.length} byte request`);
+    await sendAnalysis(req, res);
+    return;
+  }
+
+  if (req.method === "POST" && url.pathname === "/chat") {
+    const { question, history = [] } = JSON.parse((await readBody(req)).toString() || "{}");
+    if (typeof question !== "string" || !question.trim()) {
+      sendJson(res, 400, { detail: "Missing question" });
+      return;
+    }
+    console.log(`Chat question (${history.length} earlier turns): ${question}`);
+    await sleep(delayMs);
+    sendJson(res, 200, { answer: `Mock answer to "${question}". The prospect said the price is higher than they budgeted.` });
+    return;
+  }
+
+  sendJson(res, 404, { detail: "Not found" });
+}
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error(error);
+      if (!res.headersSent) sendJson(res, 500, { detail: error.message });
+      else res.end();
+    });
+  })
+  .listen(port, () => {
+    console.log(`Mock analysis server listening on http://localhost:${port}`);
+  });